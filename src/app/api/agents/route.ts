@@ -0,0 +1,12 @@
+import { listAgentProfiles, toAgentSummary } from '@/lib/chat/agent-profiles'
+import { jsonError, jsonResponse } from '@/lib/http'
+
+export async function GET() {
+  try {
+    const profiles = await listAgentProfiles()
+    return jsonResponse({ agents: profiles.map(toAgentSummary) })
+  } catch (error) {
+    console.error('Failed to load agent profiles:', error)
+    return jsonError('Failed to load agent profiles', 500)
+  }
+}
@@ -0,0 +1,85 @@
+import { Conversation } from '@/lib/chat/conversations'
+import {
+  createFileConversationStore,
+  getConversationsDir,
+  isValidConversationId,
+} from '@/lib/chat/file-conversation-store'
+import { jsonError, jsonResponse } from '@/lib/http'
+
+type RouteContext = { params: Promise<{ conversationId: string }> }
+
+// Resolves the configured store and validated id, or the error response to return
+async function resolveStore({ params }: RouteContext) {
+  const dir = getConversationsDir()
+  if (!dir) {
+    return { error: jsonError('Server-side conversation storage is not configured', 404) }
+  }
+
+  const { conversationId } = await params
+  if (!isValidConversationId(conversationId)) {
+    return { error: jsonError('Invalid conversation id', 400) }
+  }
+
+  return { store: createFileConversationStore(dir), conversationId }
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { store, conversationId, error } = await resolveStore(context)
+  if (error) return error
+
+  const conversation = await store.get(conversationId)
+  if (!conversation) {
+    return jsonError('Conversation not found', 404)
+  }
+  return jsonResponse(conversation)
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const { store, conversationId, error } = await resolveStore(context)
+  if (error) return error
+
+  try {
+    const conversation = await request.json() as Conversation
+    if (!conversation || !Array.isArray(conversation.messages) || typeof conversation.title !== 'string') {
+      return jsonError('Conversation with title and messages is required', 400)
+    }
+
+    await store.save({ ...conversation, id: conversationId })
+    return jsonResponse({ ok: true })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return jsonError('Request body must be JSON', 400)
+    }
+    console.error('Conversation save error:', error)
+    return jsonError('Failed to save the conversation. Check server logs for details.', 500)
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const { store, conversationId, error } = await resolveStore(context)
+  if (error) return error
+
+  try {
+    const title = (await request.json() as { title?: string } | null)?.title
+    if (typeof title !== 'string' || !title.trim()) {
+      return jsonError('Title is required', 400)
+    }
+
+    await store.rename(conversationId, title.trim())
+    return jsonResponse({ ok: true })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return jsonError('Request body must be JSON', 400)
+    }
+    console.error('Conversation rename error:', error)
+    return jsonError('Failed to rename the conversation. Check server logs for details.', 500)
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { store, conversationId, error } = await resolveStore(context)
+  if (error) return error
+
+  await store.remove(conversationId)
+  return jsonResponse({ ok: true })
+}
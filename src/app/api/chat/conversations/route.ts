@@ -0,0 +1,13 @@
+import { createFileConversationStore, getConversationsDir } from '@/lib/chat/file-conversation-store'
+import { jsonError, jsonResponse } from '@/lib/http'
+
+export async function GET(request: Request) {
+  const dir = getConversationsDir()
+  if (!dir) {
+    return jsonError('Server-side conversation storage is not configured', 404)
+  }
+
+  const search = new URL(request.url).searchParams.get('q') ?? undefined
+  const conversations = await createFileConversationStore(dir).list(search)
+  return jsonResponse({ conversations })
+}
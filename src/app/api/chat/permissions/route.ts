@@ -0,0 +1,30 @@
+import { resolvePermission } from '@/lib/chat/permissions'
+import { jsonError, jsonResponse } from '@/lib/http'
+
+interface PermissionAnswer {
+  sessionId: string
+  requestId: string
+  approved: boolean
+}
+
+export async function POST(request: Request) {
+  try {
+    const { sessionId, requestId, approved } = await request.json() as PermissionAnswer
+
+    if (typeof sessionId !== 'string' || typeof requestId !== 'string' || typeof approved !== 'boolean') {
+      return jsonError('sessionId, requestId and approved are required', 400)
+    }
+
+    if (!resolvePermission(requestId, sessionId, approved)) {
+      return jsonError('Permission request not found or already answered', 404)
+    }
+
+    return jsonResponse({ ok: true })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return jsonError('Request body must be JSON', 400)
+    }
+    console.error('Permission answer error:', error)
+    return jsonError('Failed to answer the permission request. Check server logs for details.', 500)
+  }
+}
@@ -1,149 +1,340 @@
-import { query } from '@anthropic-ai/claude-agent-sdk'
-
-const SYSTEM_PROMPT = `You are a helpful personal assistant designed to help with general research, questions, and tasks.
-
-Your role is to:
-- Answer questions on any topic accurately and thoroughly
-- Help with research by searching the web for current information
-- Assist with writing, editing, and brainstorming
-- Provide explanations and summaries of complex topics
-- Help solve problems and think through decisions
-
-Guidelines:
-- Be friendly, clear, and conversational
-- Use web search when you need current information, facts you're unsure about, or real-time data
-- Keep responses concise but complete - expand when the topic warrants depth
-- Use markdown formatting when it helps readability (bullet points, code blocks, etc.)
-- Be honest when you don't know something and offer to search for answers`
-
-interface MessageInput {
-  role: 'user' | 'assistant'
-  content: string
+import { SDKResultMessage, SDKUserMessage, query } from '@anthropic-ai/claude-agent-sdk'
+import { jsonError } from '@/lib/http'
+import { ChatSession, appendTranscript, createSession, getSession, touchSession } from '@/lib/chat/sessions'
+import { ToolPolicy, checkToolUse, createSessionWorkspace, loadToolPolicy, requiresApproval } from '@/lib/chat/tool-policy'
+import { PermissionOutcome, requestPermission } from '@/lib/chat/permissions'
+import { CHAT_PROTOCOL_VERSION, ChatEvent } from '@/lib/chat/protocol'
+import { ChatRun, createRun, createRunStreamResponse, emitRunEvent, finishRun } from '@/lib/chat/runs'
+import { ChatSettings, validateChatSettings } from '@/lib/chat/settings'
+import { getSystemPrompt } from '@/lib/chat/system-prompts'
+import { AgentProfile, getAgentProfile, restrictPolicyToAgent } from '@/lib/chat/agent-profiles'
+import { describeAttachments, resolveAttachmentPaths } from '@/lib/chat/uploads'
+import { ChatMediaPart, ChatMessageInput, validateMessageInput } from '@/lib/chat/content-parts'
+import { findChangedFiles, snapshotWorkspace } from '@/lib/chat/workspace-files'
+import { ChatUsage, EMPTY_USAGE, addUsage, estimateCost, fromApiUsage, totalTokens } from '@/lib/chat/usage'
+import { getRateLimitKey, getRateLimiter, rateLimitedResponse } from '@/lib/chat/rate-limit'
+
+const DENIED_BY_USER: Record<Exclude<PermissionOutcome, 'approved'>, string> = {
+  denied: 'The user denied this tool call',
+  timeout: 'No approval was given in time',
+  aborted: 'The request was cancelled',
 }
 
-export async function POST(request: Request) {
-  try {
-    const { messages } = await request.json() as { messages: MessageInput[] }
+// Tool results are echoed to the client for the transcript, so keep them small
+const TOOL_RESULT_PREVIEW_LIMIT = 2000
 
-    if (!messages || !Array.isArray(messages)) {
-      return new Response(
-        JSON.stringify({ error: 'Messages array is required' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      )
-    }
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+  return content
+    .map(block => block?.type === 'text' ? block.text : `[${block?.type ?? 'unknown'}]`)
+    .join('\n')
+}
 
-    // Get the last user message
-    const lastUserMessage = messages.filter(m => m.role === 'user').pop()
-    if (!lastUserMessage) {
-      return new Response(
-        JSON.stringify({ error: 'No user message found' }),
-        { status: 400, headers: { 'Content-Type': 'application/json' } }
-      )
-    }
+// Images and PDFs go to the model as content blocks next to the text, which
+// needs the SDK's streaming input instead of a plain prompt string
+function toAgentPrompt(text: string, media: ChatMediaPart[], agentSessionId: string | null): string | AsyncIterable<SDKUserMessage> {
+  if (media.length === 0) return text
 
-    // Build conversation context
-    const conversationContext = messages
-      .slice(0, -1) // Exclude the last message since we pass it as the prompt
-      .map((m: MessageInput) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
-      .join('\n\n')
-
-    const fullPrompt = conversationContext
-      ? `${SYSTEM_PROMPT}\n\nPrevious conversation:\n${conversationContext}\n\nUser: ${lastUserMessage.content}`
-      : `${SYSTEM_PROMPT}\n\nUser: ${lastUserMessage.content}`
-
-    // Create a streaming response
-    const encoder = new TextEncoder()
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Use the claude-agent-sdk query function with all default tools enabled
-          for await (const message of query({
-            prompt: fullPrompt,
-            options: {
-              maxTurns: 10,
-              // Use the preset to enable all Claude Code tools including WebSearch
-              tools: { type: 'preset', preset: 'claude_code' },
-              // Bypass all permission checks for automated tool execution
-              permissionMode: 'bypassPermissions',
-              allowDangerouslySkipPermissions: true,
-              // Enable partial messages for real-time text streaming
-              includePartialMessages: true,
-              // Set working directory to the app's directory for sandboxing
-              cwd: process.cwd(),
-            }
-          })) {
-            // Handle streaming text deltas (partial messages)
-            if (message.type === 'stream_event' && 'event' in message) {
-              const event = message.event
-              // Handle content block delta events for text streaming
-              if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
-                controller.enqueue(encoder.encode(
-                  `data: ${JSON.stringify({ type: 'text_delta', text: event.delta.text })}\n\n`
-                ))
-              }
-            }
+  const content = [
+    ...media.map(part => ({
+      type: part.type,
+      source: { type: 'base64' as const, media_type: part.mediaType, data: part.data },
+    })),
+    { type: 'text' as const, text },
+  ]
+  return (async function* () {
+    yield {
+      type: 'user',
+      message: { role: 'user', content },
+      parent_tool_use_id: null,
+      session_id: agentSessionId ?? '',
+    } satisfies SDKUserMessage
+  })()
+}
 
-            // Send tool start events from assistant messages
-            if (message.type === 'assistant' && 'message' in message) {
-              const content = message.message?.content
-              if (Array.isArray(content)) {
-                for (const block of content) {
-                  if (block.type === 'tool_use') {
-                    controller.enqueue(encoder.encode(
-                      `data: ${JSON.stringify({ type: 'tool_start', tool: block.name })}\n\n`
-                    ))
-                  }
-                }
-              }
-            }
+// How media parts appear in the session transcript, which is text only
+function describeMedia(media: ChatMediaPart[]) {
+  return media.map(part => `\n[${part.type}: ${part.name ?? part.mediaType}]`).join('')
+}
 
-            // Send tool progress updates
-            if (message.type === 'tool_progress') {
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'tool_progress', tool: message.tool_name, elapsed: message.elapsed_time_seconds })}\n\n`
-              ))
-            }
+function toChatUsage(result: SDKResultMessage): ChatUsage {
+  return {
+    ...fromApiUsage(result.usage),
+    costUsd: result.total_cost_usd,
+    durationMs: result.duration_ms,
+    numTurns: result.num_turns,
+  }
+}
+
+function truncate(text: string, limit: number) {
+  return text.length > limit ? `${text.slice(0, limit)}\n… (${text.length - limit} more characters)` : text
+}
+
+interface ChatRequest {
+  sessionId?: string
+  message: ChatMessageInput
+  settings?: Partial<ChatSettings>
+  // Agent profile the Chat window is bound to, if any
+  agentId?: string
+  // Workspace paths of files uploaded through /api/chat/uploads
+  attachments?: string[]
+}
+
+interface AgentRunContext {
+  run: ChatRun
+  session: ChatSession
+  prompt: string
+  media: ChatMediaPart[]
+  policy: ToolPolicy
+  workspaceDir: string
+  settings: ChatSettings
+  agent: AgentProfile | null
+  // Client the run counts against for rate limiting
+  rateLimitKey: string
+}
+
+// Drives one agent query, publishing its progress as events on the run
+async function runAgent({ run, session, prompt, media, policy, workspaceDir, settings, agent, rateLimitKey }: AgentRunContext) {
+  // Aborted when the user presses Stop or nobody reconnects in time, which
+  // stops the agent (and any running tools) instead of finishing all its turns
+  const { abortController } = run
+  const startedAt = Date.now()
+  let assistantContent = ''
+  // When each tool call started, keyed by tool_use id, for reporting durations
+  const toolStartTimes = new Map<string, number>()
+  let usage: ChatUsage | null = null
+  // Latest usage of each model call, keyed by API message id, for runs that
+  // end without the agent's result, e.g. when stopped. A call's content
+  // blocks arrive as separate messages with growing output counts.
+  const callUsage = new Map<string, ChatUsage>()
+  const usageSoFar = () => [...callUsage.values()].reduce(addUsage, EMPTY_USAGE)
+  // What to report when the run ends early
+  const finalUsage = () => {
+    if (usage) return usage
+    const tokens = usageSoFar()
+    return { ...tokens, costUsd: estimateCost(tokens, settings.model), durationMs: Date.now() - startedAt, estimated: true }
+  }
+
+  const send = (event: ChatEvent) => emitRunEvent(run, event)
+
+  // Compared after each tool call to report the files it wrote as artifacts
+  let workspaceSnapshot = await snapshotWorkspace(workspaceDir)
+
+  // Tell the client which session to send follow-up messages to
+  send({ type: 'session', sessionId: session.id, runId: run.id, protocolVersion: CHAT_PROTOCOL_VERSION })
+
+  try {
+    // Use the claude-agent-sdk query function with all default tools enabled
+    for await (const message of query({
+      prompt: toAgentPrompt(prompt, media, session.agentSessionId),
+      options: {
+        abortController,
+        // An agent's own prompt replaces the conversation's persona preset
+        systemPrompt: agent?.systemPrompt ?? getSystemPrompt(settings.preset),
+        model: settings.model,
+        // Continue the agent's own session so prior turns and tool calls stay in context
+        resume: session.agentSessionId ?? undefined,
+        maxTurns: settings.maxTurns,
+        // The deployment's tool policy decides which tools exist at all;
+        // without an allow list this is the full preset including WebSearch
+        tools: policy.allowedTools ?? { type: 'preset', preset: 'claude_code' },
+        disallowedTools: policy.deniedTools,
+        // Every tool call that needs permission is checked against the policy
+        permissionMode: 'default',
+        canUseTool: async (toolName, input, { toolUseID: toolUseId }) => {
+          const decision = checkToolUse(policy, workspaceDir, toolName, input)
+          if (!decision.allowed) {
+            send({ type: 'tool_denied', toolUseId, tool: toolName, reason: decision.reason })
+            return { behavior: 'deny', message: decision.reason }
+          }
+
+          // Sensitive tools pause here until the user answers in the Chat window
+          if (requiresApproval(policy, toolName)) {
+            const permission = requestPermission(session.id, abortController.signal)
+            send({ type: 'permission_request', requestId: permission.id, toolUseId, tool: toolName, input })
+            const outcome = await permission.outcome
+            send({ type: 'permission_resolved', requestId: permission.id, approved: outcome === 'approved' })
 
-            // Signal completion
-            if (message.type === 'result' && message.subtype === 'success') {
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'done' })}\n\n`
-              ))
+            if (outcome !== 'approved') {
+              const reason = DENIED_BY_USER[outcome]
+              send({ type: 'tool_denied', toolUseId, tool: toolName, reason })
+              return { behavior: 'deny', message: reason }
             }
+          }
 
-            // Handle errors
-            if (message.type === 'result' && message.subtype !== 'success') {
-              controller.enqueue(encoder.encode(
-                `data: ${JSON.stringify({ type: 'error', message: 'Query did not complete successfully' })}\n\n`
-              ))
+          return { behavior: 'allow', updatedInput: input }
+        },
+        // Enable partial messages for real-time text streaming
+        includePartialMessages: true,
+        // Run inside the session's own workspace rather than the app directory
+        cwd: workspaceDir,
+        additionalDirectories: policy.readablePaths,
+      }
+    })) {
+      if (!session.agentSessionId && message.session_id) {
+        session.agentSessionId = message.session_id
+      }
+      touchSession(session)
+
+      // Handle streaming text deltas (partial messages)
+      if (message.type === 'stream_event' && 'event' in message) {
+        const event = message.event
+        // Handle content block delta events for text streaming
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          assistantContent += event.delta.text
+          send({ type: 'text_delta', text: event.delta.text })
+        }
+      }
+
+      // Send tool start events from assistant messages
+      if (message.type === 'assistant' && 'message' in message) {
+        if (message.message?.id && message.message.usage) {
+          callUsage.set(message.message.id, fromApiUsage(message.message.usage))
+        }
+        const content = message.message?.content
+        if (Array.isArray(content)) {
+          for (const block of content) {
+            if (block.type === 'tool_use') {
+              toolStartTimes.set(block.id, Date.now())
+              send({ type: 'tool_start', toolUseId: block.id, tool: block.name, input: block.input as Record<string, unknown> })
             }
           }
+        }
+      }
+
+      // Tool results come back to the agent as user messages
+      if (message.type === 'user' && Array.isArray(message.message.content)) {
+        for (const block of message.message.content) {
+          if (block.type === 'tool_result') {
+            const startedAt = toolStartTimes.get(block.tool_use_id)
+            send({
+              type: 'tool_result',
+              toolUseId: block.tool_use_id,
+              output: truncate(toolResultText(block.content), TOOL_RESULT_PREVIEW_LIMIT),
+              isError: block.is_error ?? false,
+              durationMs: startedAt ? Date.now() - startedAt : undefined,
+            })
 
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'))
-          controller.close()
-        } catch (error) {
-          console.error('Stream error:', error)
-          controller.enqueue(encoder.encode(
-            `data: ${JSON.stringify({ type: 'error', message: 'Stream error occurred' })}\n\n`
-          ))
-          controller.close()
+            const changes = await findChangedFiles(workspaceDir, session.id, workspaceSnapshot)
+            workspaceSnapshot = changes.snapshot
+            for (const artifact of changes.artifacts) {
+              send({ type: 'artifact', toolUseId: block.tool_use_id, artifact })
+            }
+          }
         }
       }
-    })
-
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    })
+
+      // Send tool progress updates
+      if (message.type === 'tool_progress') {
+        send({ type: 'tool_progress', toolUseId: message.tool_use_id, tool: message.tool_name, elapsed: message.elapsed_time_seconds })
+      }
+
+      // Signal completion or failure, with what the run used either way
+      if (message.type === 'result') {
+        usage = toChatUsage(message)
+        send(message.subtype === 'success'
+          ? { type: 'done', usage }
+          : { type: 'error', message: 'Query did not complete successfully', usage })
+      }
+    }
+
+    if (abortController.signal.aborted) {
+      send({ type: 'stopped', usage: finalUsage() })
+    }
+  } catch (error) {
+    // An abort surfaces as an error from the query; that is expected
+    if (abortController.signal.aborted) {
+      send({ type: 'stopped', usage: finalUsage() })
+    } else {
+      console.error('Stream error:', error)
+      send({ type: 'error', message: 'Stream error occurred', usage: finalUsage() })
+    }
+  } finally {
+    if (assistantContent) {
+      appendTranscript(session, 'assistant', assistantContent)
+    }
+    session.activeRunId = null
+    finishRun(run)
+    await getRateLimiter().release(rateLimitKey, totalTokens(usage ?? usageSoFar()))
+      .catch(error => console.error('Failed to release rate limit:', error))
+  }
+}
+
+export async function POST(request: Request) {
+  // Throttled before anything else, so a turned-down request costs nothing
+  const rateLimitKey = getRateLimitKey(request)
+  const rateLimit = await getRateLimiter().acquire(rateLimitKey)
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit)
+  }
+
+  // runAgent releases the rate limit and the session when the run ends
+  let runStarted = false
+  let reservation: { session: ChatSession, run: ChatRun } | null = null
+  try {
+    const { sessionId, message, settings, agentId, attachments } = await request.json() as ChatRequest
+
+    const input = validateMessageInput(message)
+    if (!input.valid) {
+      return jsonError(input.reason, 400)
+    }
+
+    const validation = validateChatSettings(settings)
+    if (!validation.valid) {
+      return jsonError(validation.reason, 400)
+    }
+
+    const agent = agentId ? await getAgentProfile(agentId) : null
+    if (agentId && !agent) {
+      return jsonError(`Unknown agent: ${agentId}`, 400)
+    }
+
+    // Resume the caller's session, or start a new one on the first turn
+    const session = sessionId ? getSession(sessionId) : createSession()
+    if (!session) {
+      return jsonError('Session not found or expired', 404)
+    }
+    if (session.activeRunId) {
+      return jsonError('A response is already in progress for this session', 409)
+    }
+    // Claimed before anything is awaited, so a second message sent meanwhile
+    // gets the 409 instead of resuming the same agent session alongside
+    const run = createRun(session.id)
+    session.activeRunId = run.id
+    reservation = { session, run }
+
+    const deploymentPolicy = await loadToolPolicy()
+    const policy = agent ? restrictPolicyToAgent(deploymentPolicy, agent) : deploymentPolicy
+    session.workspaceDir ??= await createSessionWorkspace(policy, session.id)
+    const workspaceDir = session.workspaceDir
+
+    const attachmentPaths = attachments === undefined ? [] : await resolveAttachmentPaths(workspaceDir, attachments)
+    if (!attachmentPaths) {
+      return jsonError('Attachments were not found in this session; upload them again', 400)
+    }
+    const prompt = attachmentPaths.length > 0 ? input.text + describeAttachments(attachmentPaths) : input.text
+
+    appendTranscript(session, 'user', prompt + describeMedia(input.media))
+
+    // The agent runs independently of this response, so a dropped connection
+    // can reconnect through /api/chat/runs/[runId] without losing the answer
+    runStarted = true
+    void runAgent({ run, session, prompt, media: input.media, policy, workspaceDir, settings: validation.settings, agent, rateLimitKey })
+
+    return createRunStreamResponse(run, 0, request.signal)
   } catch (error) {
     console.error('Chat API error:', error)
 
-    return new Response(
-      JSON.stringify({ error: 'Failed to process chat request. Check server logs for details.' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    )
+    return jsonError('Failed to process chat request. Check server logs for details.', 500)
+  } finally {
+    if (!runStarted) {
+      if (reservation) {
+        reservation.session.activeRunId = null
+        finishRun(reservation.run)
+      }
+      await getRateLimiter().release(rateLimitKey, 0)
+        .catch(error => console.error('Failed to release rate limit:', error))
+    }
   }
 }
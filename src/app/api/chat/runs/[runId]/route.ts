@@ -0,0 +1,31 @@
+import { cancelRun, createRunStreamResponse, getRun } from '@/lib/chat/runs'
+import { jsonError, jsonResponse } from '@/lib/http'
+
+type RouteContext = { params: Promise<{ runId: string }> }
+
+// Reconnects to a run's event stream, replaying everything after Last-Event-ID
+export async function GET(request: Request, { params }: RouteContext) {
+  const { runId } = await params
+  const run = getRun(runId)
+  if (!run) {
+    return jsonError('Run not found or expired', 404)
+  }
+
+  const lastEventId = Number(
+    request.headers.get('Last-Event-ID') ?? new URL(request.url).searchParams.get('lastEventId') ?? 0
+  ) || 0
+
+  return createRunStreamResponse(run, lastEventId, request.signal)
+}
+
+// Stops the agent; the run emits a final `stopped` event
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { runId } = await params
+  const run = getRun(runId)
+  if (!run) {
+    return jsonError('Run not found or expired', 404)
+  }
+
+  cancelRun(run)
+  return jsonResponse({ ok: true })
+}
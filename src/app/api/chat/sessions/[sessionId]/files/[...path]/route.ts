@@ -0,0 +1,37 @@
+import { readFile, stat } from 'fs/promises'
+import { getSession } from '@/lib/chat/sessions'
+import { resolveWorkspaceFile } from '@/lib/chat/workspace-files'
+import { jsonError } from '@/lib/http'
+import { guessMimeType } from '@/lib/vfs/file-types'
+
+const SANDBOXED_TYPES = new Set(['text/html', 'image/svg+xml'])
+
+// Serves a file from the session's workspace, e.g. an artifact the agent wrote
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string, path: string[] }> }
+) {
+  const { sessionId, path } = await params
+  const session = getSession(sessionId)
+
+  if (!session?.workspaceDir) {
+    return jsonError('Session not found or expired', 404)
+  }
+
+  const relativePath = path.join('/')
+  const filePath = resolveWorkspaceFile(session.workspaceDir, relativePath)
+  const info = filePath ? await stat(filePath).catch(() => null) : null
+  if (!filePath || !info?.isFile()) {
+    return jsonError(`File not found: ${relativePath}`, 404)
+  }
+
+  const mimeType = guessMimeType(relativePath)
+  return new Response(new Uint8Array(await readFile(filePath)), {
+    headers: {
+      'Content-Type': mimeType,
+      'Cache-Control': 'no-store',
+      // Agent-written pages must not run with the desktop's origin
+      ...(SANDBOXED_TYPES.has(mimeType) && { 'Content-Security-Policy': 'sandbox allow-scripts' }),
+    },
+  })
+}
@@ -0,0 +1,22 @@
+import { getSession } from '@/lib/chat/sessions'
+import { jsonError, jsonResponse } from '@/lib/http'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params
+  const session = getSession(sessionId)
+
+  if (!session) {
+    return jsonError('Session not found or expired', 404)
+  }
+
+  return jsonResponse({
+    sessionId: session.id,
+    createdAt: new Date(session.createdAt).toISOString(),
+    lastActiveAt: new Date(session.lastActiveAt).toISOString(),
+    activeRunId: session.activeRunId,
+    transcript: session.transcript,
+  })
+}
@@ -0,0 +1,69 @@
+import { jsonError, jsonResponse } from '@/lib/http'
+import { createSession, getSession, touchSession } from '@/lib/chat/sessions'
+import { getRateLimitKey, getRateLimiter, rateLimitedResponse } from '@/lib/chat/rate-limit'
+import { createSessionWorkspace, loadToolPolicy } from '@/lib/chat/tool-policy'
+import {
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_FILES,
+  MAX_UPLOAD_TOTAL_BYTES,
+  MULTIPART_OVERHEAD_BYTES,
+  saveUploads,
+} from '@/lib/chat/uploads'
+import { UploadResponse } from '@/lib/chat/attachments'
+
+// Stores files attached in the Chat in the session's workspace. Without a
+// sessionId a new session is started, which the next message then uses.
+export async function POST(request: Request) {
+  // Uploads share the per-minute budget of the messages they belong to
+  const rateLimit = await getRateLimiter().count(getRateLimitKey(request))
+  if (!rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit)
+  }
+
+  // formData() reads the whole body into memory, so a body too large for an
+  // allowed upload is turned down before it is parsed
+  const contentLength = request.headers.get('content-length')
+  if (contentLength === null || !/^\d+$/.test(contentLength)) {
+    return jsonError('Content-Length is required', 411)
+  }
+  if (Number(contentLength) > MAX_UPLOAD_TOTAL_BYTES + MULTIPART_OVERHEAD_BYTES) {
+    return jsonError(`Uploads are limited to ${MAX_UPLOAD_TOTAL_BYTES / (1024 * 1024)} MB at once`, 413)
+  }
+
+  try {
+    const form = await request.formData()
+    const sessionId = form.get('sessionId')
+    const files = form.getAll('files').filter((value): value is File => value instanceof File)
+
+    if (files.length === 0) {
+      return jsonError('No files to upload', 400)
+    }
+    if (files.length > MAX_UPLOAD_FILES) {
+      return jsonError(`At most ${MAX_UPLOAD_FILES} files can be uploaded at once`, 400)
+    }
+    if (files.reduce((total, file) => total + file.size, 0) > MAX_UPLOAD_TOTAL_BYTES) {
+      return jsonError(`Uploads are limited to ${MAX_UPLOAD_TOTAL_BYTES / (1024 * 1024)} MB at once`, 413)
+    }
+    const tooLarge = files.find(file => file.size > MAX_UPLOAD_BYTES)
+    if (tooLarge) {
+      return jsonError(`${tooLarge.name} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`, 413)
+    }
+
+    const session = typeof sessionId === 'string' && sessionId ? getSession(sessionId) : createSession()
+    if (!session) {
+      return jsonError('Session not found or expired', 404)
+    }
+
+    session.workspaceDir ??= await createSessionWorkspace(await loadToolPolicy(), session.id)
+    touchSession(session)
+
+    const body: UploadResponse = {
+      sessionId: session.id,
+      attachments: await saveUploads(session.workspaceDir, files),
+    }
+    return jsonResponse(body)
+  } catch (error) {
+    console.error('Chat upload error:', error)
+    return jsonError('Failed to upload files. Check server logs for details.', 500)
+  }
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Search } from 'lucide-react'
+import { useWindowManager } from './WindowManager'
+import { listApps } from './app-registry'
+import { loadRecentFiles } from './recent-files'
+import { Command, fuzzyScore } from './commands'
+import { SAVED_PROMPTS } from '@/lib/chat/saved-prompts'
+import { basename } from '@/lib/vfs/paths'
+
+const MAX_RESULTS = 50
+
+// Mounted only while the palette is open, so it lists the commands of the
+// window that was focused when it opened
+function CommandPaletteDialog() {
+  const {
+    windows,
+    openWindow,
+    closeWindow,
+    restoreWindow,
+    focusWindow,
+    getActiveCommands,
+    setShowCommandPalette,
+  } = useWindowManager()
+  const [query, setQuery] = useState('')
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [registeredCommands] = useState(getActiveCommands)
+  const [recentFiles] = useState(loadRecentFiles)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const askChat = (prompt: string) => openWindow('chat', { prompt })
+
+  const commands: Omit<Command, 'windowId'>[] = [
+    ...registeredCommands,
+    ...windows.flatMap(win => [
+      {
+        id: `focus-window:${win.id}`,
+        title: `Switch to ${win.title}`,
+        group: 'Windows',
+        run: () => win.isMinimized ? restoreWindow(win.id) : focusWindow(win.id),
+      },
+      {
+        id: `close-window:${win.id}`,
+        title: `Close ${win.title}`,
+        group: 'Windows',
+        run: () => closeWindow(win.id),
+      },
+    ]),
+    ...listApps().map(app => ({
+      id: `open-app:${app.id}`,
+      title: `Open ${app.title}`,
+      group: 'Apps',
+      run: () => openWindow(app.id),
+    })),
+    ...recentFiles.map(file => ({
+      id: `open-file:${file.appId}:${file.path}`,
+      title: `Open ${basename(file.path)}`,
+      group: 'Recent files',
+      run: () => openWindow(file.appId, file.args),
+    })),
+    ...SAVED_PROMPTS.map(prompt => ({
+      id: `prompt:${prompt.id}`,
+      title: prompt.title,
+      group: 'Prompts',
+      run: () => askChat(prompt.prompt),
+    })),
+  ]
+
+  const results = commands
+    .map(command => ({ command, score: fuzzyScore(query, `${command.title} ${command.group}`) }))
+    .filter((result): result is { command: Omit<Command, 'windowId'>, score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS)
+    .map(result => result.command)
+
+  // Anything typed can be sent to a new Chat as a prompt
+  if (query.trim()) {
+    results.push({ id: 'ask-chat', title: `Ask Chat: ${query.trim()}`, group: 'Prompts', run: () => askChat(query.trim()) })
+  }
+
+  const activeIndex = Math.min(selectedIndex, results.length - 1)
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const close = () => setShowCommandPalette(false)
+
+  const run = (command: Omit<Command, 'windowId'>) => {
+    close()
+    command.run()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        if (results.length > 0) setSelectedIndex((activeIndex + 1) % results.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        if (results.length > 0) setSelectedIndex((activeIndex - 1 + results.length) % results.length)
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (results[activeIndex]) run(results[activeIndex])
+        break
+      case 'Escape':
+        e.preventDefault()
+        close()
+        break
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[100000] flex items-start justify-center pt-[15vh] bg-black/40" onClick={close}>
+      <div
+        className="w-[520px] max-w-[90vw] rounded-lg border border-[#362552] bg-[#1e1a2a] shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-3 py-2.5 border-b border-[#362552]">
+          <Search className="w-4 h-4 text-[#9086a3]" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setSelectedIndex(0)
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or a question for Chat"
+            className="flex-1 bg-transparent text-sm text-[#e8e4f0] placeholder-[#9086a3] focus:outline-none"
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-80 overflow-y-auto py-1">
+          {results.length === 0 && (
+            <div className="px-3 py-4 text-center text-sm text-[#9086a3]">No matching commands</div>
+          )}
+          {results.map((command, index) => (
+            <button
+              key={command.id}
+              data-index={index}
+              onClick={() => run(command)}
+              onMouseMove={() => setSelectedIndex(index)}
+              className={`w-full flex items-center justify-between gap-4 px-3 py-1.5 text-left text-sm ${
+                index === activeIndex ? 'bg-[#7553ff]/20' : ''
+              }`}
+            >
+              <span className="truncate text-[#e8e4f0]">{command.title}</span>
+              <span className="shrink-0 text-xs text-[#9086a3]">{command.group}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function CommandPalette() {
+  const { showCommandPalette } = useWindowManager()
+  return showCommandPalette ? <CommandPaletteDialog /> : null
+}
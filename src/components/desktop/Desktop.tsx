@@ -4,119 +4,78 @@ import { WindowManagerProvider, useWindowManager } from './WindowManager'
 import { Window } from './Window'
 import { Taskbar } from './Taskbar'
 import { DesktopIcon } from './DesktopIcon'
-import { Notepad } from './apps/Notepad'
-import { FolderView, FolderItem } from './apps/FolderView'
-import { Chat } from './apps/Chat'
-import { useState } from 'react'
-
-const INSTALL_GUIDE_CONTENT = `# SentryOS Install Guide
-
-Welcome to **SentryOS** - your desktop environment for Sentry demos and presentations.
-
-## Getting Started
-
-This emulated desktop environment provides a Linux-like experience with:
-
-- **Movable Windows** - Drag windows by their title bar
-- **Resizable Windows** - Grab any edge or corner to resize
-- **Minimize/Maximize** - Use the title bar buttons
-- **Taskbar** - View and restore minimized windows
-
-## Adding Custom Content
-
-To add your own markdown files:
-
-1. Place \`.md\` files in the \`public/\` directory
-2. Create a desktop icon in \`page.tsx\`
-3. Reference your file in the icon's click handler
-
-## Customization
-
-### Colors
-
-The desktop uses Sentry's brand colors:
-
-- Primary: \`#7553FF\` (Blurple)
-- Accent: \`#FF45A8\` (Pink)
-- Background: \`#0F0C14\` (Deep Purple)
-
-### Fonts
-
-All text uses **JetBrains Mono** for that authentic terminal feel.
-
-## Tips
-
-- Double-click desktop icons to open applications
-- Click the taskbar to restore minimized windows
-- The clock in the system tray shows current time
-
----
-
-*Built with Next.js and React for the Sentry team.*`
+import { WindowSwitcher } from './WindowSwitcher'
+import { ShortcutHelp } from './ShortcutHelp'
+import { CommandPalette } from './CommandPalette'
+import { DESKTOP_SHORTCUTS } from './app-registry'
+import { useEffect, useState } from 'react'
+import { FileSystemEntry, getFileSystem, importFiles } from '@/lib/vfs/file-system'
+import { DESKTOP_PATH } from '@/lib/vfs/paths'
+import { getEntryIcon, useOpenEntry } from './file-entries'
 
 function DesktopContent() {
   const { windows, openWindow } = useWindowManager()
   const [selectedIcon, setSelectedIcon] = useState<string | null>(null)
+  // Files and folders in ~/Desktop, shown after the built-in shortcuts
+  const [desktopEntries, setDesktopEntries] = useState<FileSystemEntry[]>([])
+  const [isDropTarget, setIsDropTarget] = useState(false)
+  const openEntry = useOpenEntry()
+
+  useEffect(() => {
+    const load = () => {
+      getFileSystem().list(DESKTOP_PATH)
+        .then(setDesktopEntries)
+        .catch(error => console.error('Failed to load desktop files:', error))
+    }
+    load()
+    return getFileSystem().subscribe(load)
+  }, [])
 
-  const openInstallGuide = () => {
-    openWindow({
-      id: 'install-guide',
-      title: 'Install Guide.md',
-      icon: '📄',
-      x: 100,
-      y: 50,
-      width: 600,
-      height: 500,
-      minWidth: 400,
-      minHeight: 300,
-      isMinimized: false,
-      isMaximized: false,
-      content: <Notepad content={INSTALL_GUIDE_CONTENT} filename="Install Guide.md" />
-    })
-  }
-
-  const openChatWindow = () => {
-    openWindow({
-      id: 'chat',
-      title: 'SentryOS Chat',
-      icon: '💬',
-      x: 200,
-      y: 80,
-      width: 500,
-      height: 550,
-      minWidth: 350,
-      minHeight: 400,
-      isMinimized: false,
-      isMaximized: false,
-      content: <Chat />
-    })
+  const handleDesktopClick = () => {
+    setSelectedIcon(null)
   }
 
-  const openAgentsFolder = () => {
-    const agentsFolderItems: FolderItem[] = []
-
-    openWindow({
-      id: 'agents-folder',
-      title: 'Agents',
-      icon: '📁',
-      x: 150,
-      y: 100,
-      width: 400,
-      height: 350,
-      minWidth: 300,
-      minHeight: 250,
-      isMinimized: false,
-      isMaximized: false,
-      content: <FolderView items={agentsFolderItems} folderName="Agents" />
-    })
+  // Windows that accept files handle the drop themselves; anything dropped
+  // elsewhere, including on other windows, must not navigate the browser away
+  const isOverWindow = (e: React.DragEvent) => (e.target as HTMLElement).closest('[data-window-id]') !== null
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    // Accepted by a window below the pointer
+    if (e.defaultPrevented) {
+      setIsDropTarget(false)
+      return
+    }
+    e.preventDefault()
+    const overWindow = isOverWindow(e)
+    setIsDropTarget(!overWindow)
+    if (!overWindow) e.dataTransfer.dropEffect = 'copy'
   }
 
-  const handleDesktopClick = () => {
-    setSelectedIcon(null)
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    setIsDropTarget(false)
+    if (isOverWindow(e)) return
+    importFiles(getFileSystem(), DESKTOP_PATH, Array.from(e.dataTransfer.files))
+      .catch(error => console.error('Failed to import files:', error))
   }
 
   return (
-    <div className="fixed inset-0 desktop-wallpaper overflow-hidden" onClick={handleDesktopClick}>
+    <div
+      className="fixed inset-0 desktop-wallpaper overflow-hidden"
+      onClick={handleDesktopClick}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Only when the pointer leaves the browser window, not when it crosses children
+        if (!e.relatedTarget) setIsDropTarget(false)
+      }}
+      onDrop={handleDrop}
+    >
+      {isDropTarget && (
+        <div className="absolute inset-0 bottom-12 border-2 border-dashed border-[#7553ff]/60 bg-[#7553ff]/5 pointer-events-none" />
+      )}
+
       {/* Centered Sentry logo watermark */}
       <div className="absolute inset-0 bottom-12 flex items-center justify-center pointer-events-none">
         {/* eslint-disable-next-line @next/next/no-img-element */}
@@ -137,35 +96,37 @@ function DesktopContent() {
       </div>
 
       {/* Desktop icons area - z-10 to ensure it's above windows container */}
-      <div className="absolute top-4 left-4 flex flex-col gap-2 z-10" onClick={(e) => e.stopPropagation()}>
-        <DesktopIcon
-          id="install-guide"
-          label="Install Guide"
-          icon="document"
-          onDoubleClick={openInstallGuide}
-          selected={selectedIcon === 'install-guide'}
-          onSelect={() => setSelectedIcon('install-guide')}
-        />
-        <DesktopIcon
-          id="agents-folder"
-          label="Agents"
-          icon="folder"
-          onDoubleClick={openAgentsFolder}
-          selected={selectedIcon === 'agents-folder'}
-          onSelect={() => setSelectedIcon('agents-folder')}
-        />
-        <DesktopIcon
-          id="chat"
-          label="Chat"
-          icon="chat"
-          onDoubleClick={openChatWindow}
-          selected={selectedIcon === 'chat'}
-          onSelect={() => setSelectedIcon('chat')}
-        />
+      <div className="absolute top-4 left-4 bottom-16 flex flex-col flex-wrap content-start gap-2 z-10" onClick={(e) => e.stopPropagation()}>
+        {DESKTOP_SHORTCUTS.map((shortcut) => (
+          <DesktopIcon
+            key={shortcut.id}
+            id={shortcut.id}
+            label={shortcut.label}
+            icon={shortcut.icon}
+            onDoubleClick={() => openWindow(shortcut.appId, shortcut.args)}
+            selected={selectedIcon === shortcut.id}
+            onSelect={() => setSelectedIcon(shortcut.id)}
+          />
+        ))}
+        {desktopEntries.map((entry) => (
+          <DesktopIcon
+            key={entry.path}
+            id={entry.path}
+            label={entry.name}
+            icon={getEntryIcon(entry)}
+            onDoubleClick={() => openEntry(entry)}
+            selected={selectedIcon === entry.path}
+            onSelect={() => setSelectedIcon(entry.path)}
+          />
+        ))}
       </div>
 
       {/* Taskbar */}
       <Taskbar />
+
+      <WindowSwitcher />
+      <ShortcutHelp />
+      <CommandPalette />
     </div>
   )
 }
@@ -1,28 +1,18 @@
 'use client'
 
 import { useRef } from 'react'
-import { FileText, Folder, Terminal, Settings, MessageCircle } from 'lucide-react'
+import { type LucideIcon } from 'lucide-react'
 
 interface DesktopIconProps {
   id: string
   label: string
-  icon: 'file' | 'folder' | 'terminal' | 'settings' | 'document' | 'chat'
+  icon: LucideIcon
   onDoubleClick: () => void
   selected?: boolean
   onSelect?: () => void
 }
 
-const iconMap = {
-  file: FileText,
-  folder: Folder,
-  terminal: Terminal,
-  settings: Settings,
-  document: FileText,
-  chat: MessageCircle,
-}
-
-export function DesktopIcon({ label, icon, onDoubleClick, selected, onSelect }: DesktopIconProps) {
-  const IconComponent = iconMap[icon] || FileText
+export function DesktopIcon({ label, icon: IconComponent, onDoubleClick, selected, onSelect }: DesktopIconProps) {
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const clickCountRef = useRef(0)
 
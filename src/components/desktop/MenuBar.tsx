@@ -0,0 +1,100 @@
+'use client'
+
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { formatShortcut } from './shortcuts'
+
+// Menu entries an app declares. Shortcuts are only displayed here; the app
+// binds them itself with useShortcut so they work without opening the menu.
+export type MenuBarItem =
+  | {
+    type?: 'item'
+    label: string
+    shortcut?: string
+    disabled?: boolean
+    destructive?: boolean
+    onSelect: () => void
+  }
+  | {
+    type: 'checkbox'
+    label: string
+    shortcut?: string
+    checked: boolean
+    disabled?: boolean
+    onCheckedChange: (checked: boolean) => void
+  }
+  | { type: 'separator' }
+
+export interface MenuBarMenu {
+  label: string
+  items: MenuBarItem[]
+}
+
+interface MenuBarProps {
+  menus: MenuBarMenu[]
+}
+
+// Windows stack far above z-50, so menus need to as well
+const contentClass = 'z-[100000] min-w-44 border-[#362552] bg-[#1e1a2a] text-[#e8e4f0]'
+const itemClass = 'text-xs focus:bg-[#7553ff]/20 focus:text-[#e8e4f0] data-[variant=destructive]:text-[#ff4757] data-[variant=destructive]:focus:bg-[#ff4757]/20 data-[variant=destructive]:focus:text-[#ff4757]'
+const shortcutClass = 'pl-4 tracking-normal text-[#9086a3]'
+
+export function MenuBar({ menus }: MenuBarProps) {
+  return (
+    <div className="flex items-center gap-1 px-1 py-0.5 border-b border-[#362552] bg-[#2a2438] text-xs text-[#9086a3]">
+      {menus.map((menu) => (
+        <DropdownMenu key={menu.label}>
+          <DropdownMenuTrigger className="px-1.5 py-0.5 rounded hover:text-[#e8e4f0] hover:bg-[#362552] data-[state=open]:bg-[#362552] data-[state=open]:text-[#e8e4f0] focus:outline-none">
+            {menu.label}
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className={contentClass}>
+            {menu.items.map((item, index) => {
+              if (item.type === 'separator') {
+                return <DropdownMenuSeparator key={index} className="bg-[#362552]" />
+              }
+
+              const shortcut = item.shortcut && (
+                <DropdownMenuShortcut className={shortcutClass}>{formatShortcut(item.shortcut)}</DropdownMenuShortcut>
+              )
+
+              if (item.type === 'checkbox') {
+                return (
+                  <DropdownMenuCheckboxItem
+                    key={item.label}
+                    checked={item.checked}
+                    disabled={item.disabled}
+                    onCheckedChange={item.onCheckedChange}
+                    className={itemClass}
+                  >
+                    {item.label}
+                    {shortcut}
+                  </DropdownMenuCheckboxItem>
+                )
+              }
+
+              return (
+                <DropdownMenuItem
+                  key={item.label}
+                  disabled={item.disabled}
+                  variant={item.destructive ? 'destructive' : 'default'}
+                  onSelect={item.onSelect}
+                  className={itemClass}
+                >
+                  {item.label}
+                  {shortcut}
+                </DropdownMenuItem>
+              )
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { useWindowManager } from './WindowManager'
+import { formatShortcut } from './shortcuts'
+
+// Lists the shortcuts that work right now: the focused app's first, then the desktop's
+export function ShortcutHelp() {
+  const { windows, showShortcutHelp, setShowShortcutHelp, getActiveShortcuts } = useWindowManager()
+  if (!showShortcutHelp) return null
+
+  const shortcuts = getActiveShortcuts()
+  const focused = windows.find(w => w.isFocused && !w.isMinimized)
+  const sections = [
+    { title: focused?.title ?? '', shortcuts: shortcuts.filter(s => s.windowId !== null) },
+    { title: 'Desktop', shortcuts: shortcuts.filter(s => s.windowId === null) },
+  ].filter(section => section.shortcuts.length > 0)
+
+  return (
+    <div
+      className="fixed inset-0 z-[100000] flex items-center justify-center bg-black/40"
+      onClick={() => setShowShortcutHelp(false)}
+    >
+      <div
+        className="w-[420px] max-h-[80vh] overflow-y-auto rounded-lg border border-[#362552] bg-[#1e1a2a] shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-[#362552]">
+          <span className="text-sm font-medium text-[#e8e4f0]">Keyboard Shortcuts</span>
+          <button
+            onClick={() => setShowShortcutHelp(false)}
+            className="p-1 rounded text-[#9086a3] hover:bg-[#2a2438] hover:text-[#e8e4f0]"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {sections.map((section) => (
+          <div key={section.title} className="px-4 py-3">
+            <div className="mb-2 text-xs uppercase tracking-wide text-[#9086a3]">{section.title}</div>
+            {section.shortcuts.map((shortcut) => (
+              <div key={shortcut.keys} className="flex items-center justify-between gap-4 py-1 text-sm">
+                <span className="text-[#e8e4f0]">{shortcut.description}</span>
+                <kbd className="shrink-0 px-1.5 py-0.5 rounded border border-[#362552] bg-[#2a2438] font-mono text-xs text-[#9086a3]">
+                  {formatShortcut(shortcut.keys)}
+                </kbd>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
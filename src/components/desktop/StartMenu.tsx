@@ -0,0 +1,207 @@
+'use client'
+
+import { ReactNode, useEffect, useRef, useState } from 'react'
+import { FileText, MessageCircle, Search } from 'lucide-react'
+import { useWindowManager } from './WindowManager'
+import { getApp, listApps } from './app-registry'
+import { loadRecentFiles } from './recent-files'
+import { ConversationSummary } from '@/lib/chat/conversations'
+import { getConversationStore } from '@/lib/chat/conversation-stores'
+import { basename } from '@/lib/vfs/paths'
+
+const MAX_RECENT_CONVERSATIONS = 5
+
+interface StartMenuItem {
+  id: string
+  section: 'Apps' | 'Recent files' | 'Recent conversations'
+  label: string
+  icon: ReactNode
+  launch: () => void
+}
+
+const matchesQuery = (label: string, query: string) =>
+  label.toLowerCase().includes(query.trim().toLowerCase())
+
+interface StartMenuPanelProps {
+  onClose: () => void
+}
+
+// Mounted only while the menu is open, so recent files and conversations are
+// fresh each time it opens
+function StartMenuPanel({ onClose }: StartMenuPanelProps) {
+  const { windows, openWindow, restoreWindow, focusWindow } = useWindowManager()
+  const [query, setQuery] = useState('')
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [recentFiles] = useState(loadRecentFiles)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // The store also matches message content, not just titles
+  useEffect(() => {
+    getConversationStore().list(query.trim() || undefined)
+      .then(setConversations)
+      .catch(error => console.error('Failed to load conversations:', error))
+  }, [query])
+
+  const openConversation = (conversationId: string) => {
+    const existing = windows.find(w => w.appId === 'chat' && w.props.conversationId === conversationId)
+    if (existing?.isMinimized) {
+      restoreWindow(existing.id)
+    } else if (existing) {
+      focusWindow(existing.id)
+    } else {
+      openWindow('chat', { conversationId })
+    }
+  }
+
+  const items: StartMenuItem[] = [
+    ...listApps()
+      .filter(app => matchesQuery(app.title, query))
+      .map((app): StartMenuItem => ({
+        id: `app:${app.id}`,
+        section: 'Apps',
+        label: app.title,
+        icon: <app.launcherIcon className="w-4 h-4 text-[#7553ff]" />,
+        launch: () => openWindow(app.id),
+      })),
+    ...recentFiles
+      .filter(file => matchesQuery(file.path, query))
+      .map((file): StartMenuItem => {
+        const Icon = getApp(file.appId)?.launcherIcon ?? FileText
+        return {
+          id: `file:${file.appId}:${file.path}`,
+          section: 'Recent files',
+          label: basename(file.path),
+          icon: <Icon className="w-4 h-4 text-[#9086a3]" />,
+          launch: () => openWindow(file.appId, file.args),
+        }
+      }),
+    ...conversations.slice(0, MAX_RECENT_CONVERSATIONS).map((conversation): StartMenuItem => ({
+      id: `conversation:${conversation.id}`,
+      section: 'Recent conversations',
+      label: conversation.title,
+      icon: <MessageCircle className="w-4 h-4 text-[#9086a3]" />,
+      launch: () => openConversation(conversation.id),
+    })),
+  ]
+  const activeIndex = Math.min(selectedIndex, items.length - 1)
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const launch = (item: StartMenuItem) => {
+    item.launch()
+    onClose()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        if (items.length > 0) setSelectedIndex((activeIndex + 1) % items.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        if (items.length > 0) setSelectedIndex((activeIndex - 1 + items.length) % items.length)
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (items[activeIndex]) launch(items[activeIndex])
+        break
+      case 'Escape':
+        e.preventDefault()
+        onClose()
+        break
+    }
+  }
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-80 rounded-lg border border-[#362552] bg-[#1e1a2a] shadow-2xl overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-[#362552]">
+        <Search className="w-4 h-4 text-[#9086a3]" />
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setSelectedIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search apps, files and conversations"
+          className="flex-1 bg-transparent text-sm text-[#e8e4f0] placeholder-[#9086a3] focus:outline-none"
+        />
+      </div>
+
+      <div ref={listRef} className="max-h-96 overflow-y-auto py-1">
+        {items.length === 0 && (
+          <div className="px-3 py-4 text-center text-sm text-[#9086a3]">No results</div>
+        )}
+        {items.map((item, index) => (
+          <div key={item.id}>
+            {item.section !== items[index - 1]?.section && (
+              <div className="px-3 pt-2 pb-1 text-xs uppercase tracking-wide text-[#9086a3]">{item.section}</div>
+            )}
+            <button
+              data-index={index}
+              onClick={() => launch(item)}
+              onMouseMove={() => setSelectedIndex(index)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm text-[#e8e4f0] ${
+                index === activeIndex ? 'bg-[#7553ff]/20' : ''
+              }`}
+              title={item.label}
+            >
+              {item.icon}
+              <span className="truncate">{item.label}</span>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface StartMenuProps {
+  isOpen: boolean
+  onToggle: () => void
+  onClose: () => void
+}
+
+// The SentryOS button and the menu it opens
+export function StartMenu({ isOpen, onToggle, onClose }: StartMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOpen, onClose])
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={onToggle}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded transition-colors ${
+          isOpen ? 'bg-[#2a2438]' : 'hover:bg-[#2a2438]'
+        }`}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src="/sentryglyph.png"
+          alt="Sentry"
+          width={20}
+          height={20}
+          className="w-5 h-5"
+        />
+        <span className="text-sm font-medium text-[#e8e4f0]">SentryOS</span>
+      </button>
+
+      {isOpen && <StartMenuPanel onClose={onClose} />}
+    </div>
+  )
+}
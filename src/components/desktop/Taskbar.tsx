@@ -1,12 +1,105 @@
 'use client'
 
-import { Clock } from 'lucide-react'
+import { Clock, LayoutGrid, Layers } from 'lucide-react'
 import { useWindowManager } from './WindowManager'
-import { useEffect, useState } from 'react'
+import { getApp, listApps } from './app-registry'
+import { StartMenu } from './StartMenu'
+import { WindowState } from './types'
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+interface WindowGroup {
+  appId: string
+  windows: WindowState[]
+}
+
+// Instances of the same app share one taskbar button, in the order each app was first opened
+const groupWindowsByApp = (windows: WindowState[]) => {
+  const groups: WindowGroup[] = []
+  for (const win of windows) {
+    const group = groups.find(g => g.appId === win.appId)
+    if (group) {
+      group.windows.push(win)
+    } else {
+      groups.push({ appId: win.appId, windows: [win] })
+    }
+  }
+  return groups
+}
+
+const taskbarButtonClass = (isActive: boolean, isDimmed: boolean) => `
+  flex items-center gap-2 px-3 py-1.5 rounded min-w-[120px] max-w-[200px]
+  transition-colors text-sm
+  ${isActive
+    ? 'bg-[#7553ff]/20 border border-[#7553ff]/50'
+    : 'hover:bg-[#2a2438] border border-transparent'
+  }
+  ${isDimmed ? 'opacity-60' : ''}
+`
+
+interface WindowGroupButtonProps {
+  group: WindowGroup
+  isOpen: boolean
+  onToggle: () => void
+  onClose: () => void
+  onSelect: (win: WindowState) => void
+}
+
+// A group of several windows shows a count badge and lists them in a popup
+function WindowGroupButton({ group, isOpen, onToggle, onClose, onSelect }: WindowGroupButtonProps) {
+  const groupRef = useRef<HTMLDivElement>(null)
+  const app = getApp(group.appId)
+  const isActive = group.windows.some(w => w.isFocused && !w.isMinimized)
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!groupRef.current?.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOpen, onClose])
+
+  return (
+    <div ref={groupRef} className="relative">
+      <button
+        onClick={onToggle}
+        className={taskbarButtonClass(isActive, group.windows.every(w => w.isMinimized))}
+        title={app?.title}
+      >
+        <span className="text-base">{app?.icon ?? group.windows[0].icon}</span>
+        <span className="truncate text-[#9086a3]">{app?.title ?? group.windows[0].title}</span>
+        <span className="ml-auto px-1.5 rounded-full bg-[#7553ff] text-[10px] leading-4 text-white">
+          {group.windows.length}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-56 py-1 rounded border border-[#362552] bg-[#1e1a2a] shadow-lg">
+          {group.windows.map((win) => (
+            <button
+              key={win.id}
+              onClick={() => onSelect(win)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-[#2a2438] ${
+                win.isFocused && !win.isMinimized ? 'text-[#e8e4f0]' : 'text-[#9086a3]'
+              } ${win.isMinimized ? 'opacity-60' : ''}`}
+              title={win.title}
+            >
+              <span className="text-base">{win.icon}</span>
+              <span className="truncate">{win.title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
 
 export function Taskbar() {
-  const { windows, restoreWindow, focusWindow } = useWindowManager()
+  const { windows, openWindow, restoreWindow, focusWindow, tileWindows, cascadeWindows } = useWindowManager()
   const [time, setTime] = useState('')
+  // App whose window list popup is showing
+  const [openGroupId, setOpenGroupId] = useState<string | null>(null)
+  const [showStartMenu, setShowStartMenu] = useState(false)
 
   useEffect(() => {
     const updateTime = () => {
@@ -30,51 +123,87 @@ export function Taskbar() {
     }
   }
 
+  const closeGroupPopup = useCallback(() => setOpenGroupId(null), [])
+  const closeStartMenu = useCallback(() => setShowStartMenu(false), [])
+
   return (
     <div className="fixed bottom-0 left-0 right-0 h-12 bg-[#15121d] border-t border-[#362552] flex items-center justify-between px-2 z-[9999]">
       {/* Start button area */}
       <div className="flex items-center gap-2">
-        <button className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-[#2a2438] transition-colors">
-          {/* eslint-disable-next-line @next/next/no-img-element */}
-          <img
-            src="/sentryglyph.png"
-            alt="Sentry"
-            width={20}
-            height={20}
-            className="w-5 h-5"
-          />
-          <span className="text-sm font-medium text-[#e8e4f0]">SentryOS</span>
-        </button>
+        <StartMenu
+          isOpen={showStartMenu}
+          onToggle={() => setShowStartMenu(prev => !prev)}
+          onClose={closeStartMenu}
+        />
+
+        {/* Pinned app launchers */}
+        {listApps().filter(app => app.pinned).map((app) => (
+          <button
+            key={app.id}
+            onClick={() => openWindow(app.id)}
+            className="p-1.5 rounded hover:bg-[#2a2438] transition-colors"
+            title={app.title}
+          >
+            <app.launcherIcon className="w-4 h-4 text-[#7553ff]" />
+          </button>
+        ))}
 
         {/* Separator */}
         <div className="w-px h-6 bg-[#362552]" />
 
         {/* Open windows */}
         <div className="flex items-center gap-1">
-          {windows.map((win) => (
-            <button
-              key={win.id}
-              onClick={() => handleWindowClick(win.id, win.isMinimized)}
-              className={`
-                flex items-center gap-2 px-3 py-1.5 rounded min-w-[120px] max-w-[200px]
-                transition-colors text-sm
-                ${win.isFocused && !win.isMinimized
-                  ? 'bg-[#7553ff]/20 border border-[#7553ff]/50'
-                  : 'hover:bg-[#2a2438] border border-transparent'
-                }
-                ${win.isMinimized ? 'opacity-60' : ''}
-              `}
-              title={win.title}
-            >
-              <span className="text-base">{win.icon}</span>
-              <span className="truncate text-[#9086a3]">{win.title}</span>
-            </button>
-          ))}
+          {groupWindowsByApp(windows).map((group) => {
+            if (group.windows.length > 1) {
+              return (
+                <WindowGroupButton
+                  key={group.appId}
+                  group={group}
+                  isOpen={openGroupId === group.appId}
+                  onToggle={() => setOpenGroupId(prev => prev === group.appId ? null : group.appId)}
+                  onClose={closeGroupPopup}
+                  onSelect={(win) => {
+                    handleWindowClick(win.id, win.isMinimized)
+                    setOpenGroupId(null)
+                  }}
+                />
+              )
+            }
+
+            const [win] = group.windows
+            return (
+              <button
+                key={win.id}
+                onClick={() => handleWindowClick(win.id, win.isMinimized)}
+                className={taskbarButtonClass(win.isFocused && !win.isMinimized, win.isMinimized)}
+                title={win.title}
+              >
+                <span className="text-base">{win.icon}</span>
+                <span className="truncate text-[#9086a3]">{win.title}</span>
+              </button>
+            )
+          })}
         </div>
       </div>
 
       {/* System tray area */}
       <div className="flex items-center gap-3 px-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={tileWindows}
+            className="p-1.5 rounded hover:bg-[#2a2438] transition-colors"
+            title="Tile windows (Ctrl+Alt+T)"
+          >
+            <LayoutGrid className="w-4 h-4 text-[#9086a3]" />
+          </button>
+          <button
+            onClick={cascadeWindows}
+            className="p-1.5 rounded hover:bg-[#2a2438] transition-colors"
+            title="Cascade windows (Ctrl+Alt+C)"
+          >
+            <Layers className="w-4 h-4 text-[#9086a3]" />
+          </button>
+        </div>
         <div className="flex items-center gap-1.5 text-[#9086a3] text-sm">
           <Clock className="w-4 h-4" />
           <span className="tabular-nums">{time}</span>
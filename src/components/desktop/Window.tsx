@@ -4,7 +4,9 @@ import { useState, useEffect } from 'react'
 import { Rnd } from 'react-rnd'
 import { X, Minus, Square, Copy } from 'lucide-react'
 import { WindowState } from './types'
-import { useWindowManager } from './WindowManager'
+import { AppWindowProvider, useWindowManager } from './WindowManager'
+import { renderApp } from './app-registry'
+import { WindowLayout, getDesktopBounds, getDragSnapTarget, getSnapRect, useDesktopBounds } from './window-layout'
 
 interface WindowProps {
   window: WindowState
@@ -17,10 +19,14 @@ export function Window({ window: win }: WindowProps) {
     maximizeWindow,
     focusWindow,
     updateWindowPosition,
-    updateWindowSize
+    updateWindowSize,
+    snapWindow
   } = useWindowManager()
 
   const [mounted, setMounted] = useState(false)
+  // Where the window will snap if the current drag is released here
+  const [snapPreview, setSnapPreview] = useState<WindowLayout>(null)
+  const bounds = useDesktopBounds()
 
   useEffect(() => {
     setMounted(true)
@@ -30,93 +36,120 @@ export function Window({ window: win }: WindowProps) {
     return null
   }
 
+  const snapRect = win.snap ? getSnapRect(win.snap, bounds) : null
+
   const position = win.isMaximized
     ? { x: 0, y: 0 }
-    : { x: win.x, y: win.y }
+    : snapRect ?? { x: win.x, y: win.y }
 
   const size = win.isMaximized
     ? { width: '100%', height: 'calc(100% - 48px)' }
-    : { width: win.width, height: win.height }
+    : snapRect ?? { width: win.width, height: win.height }
+
+  const previewRect = snapPreview === 'maximize'
+    ? { x: 0, y: 0, ...bounds }
+    : snapPreview ? getSnapRect(snapPreview, bounds) : null
 
   return (
-    <Rnd
-      position={position}
-      size={size}
-      minWidth={win.minWidth}
-      minHeight={win.minHeight}
-      disableDragging={win.isMaximized}
-      enableResizing={!win.isMaximized}
-      dragHandleClassName="window-drag-handle"
-      style={{ zIndex: win.zIndex }}
-      onDragStart={() => focusWindow(win.id)}
-      onDragStop={(_e, d) => {
-        if (!win.isMaximized) {
-          updateWindowPosition(win.id, d.x, d.y)
-        }
-      }}
-      onResizeStop={(_e, _dir, ref, _delta, pos) => {
-        if (!win.isMaximized) {
-          updateWindowSize(win.id, ref.offsetWidth, ref.offsetHeight)
-          updateWindowPosition(win.id, pos.x, pos.y)
-        }
-      }}
-      onMouseDown={() => focusWindow(win.id)}
-      bounds="parent"
-      className={`absolute pointer-events-auto ${win.isFocused ? 'window-focused' : 'window-shadow'}`}
-    >
-      <div className="flex flex-col h-full bg-[#1e1a2a] rounded overflow-hidden border border-[#362552]">
-        {/* Title bar */}
+    <>
+      {previewRect && (
         <div
-          className="window-drag-handle flex items-center justify-between h-8 px-2 bg-[#2a2438] border-b border-[#362552] cursor-move select-none"
-        >
-          <div className="flex items-center gap-2 text-sm text-[#9086a3] truncate">
-            <span className="text-base">{win.icon}</span>
-            <span className="truncate">{win.title}</span>
-          </div>
+          className="absolute rounded border-2 border-[#7553ff]/60 bg-[#7553ff]/10 pointer-events-none transition-all"
+          style={{ left: previewRect.x, top: previewRect.y, width: previewRect.width, height: previewRect.height, zIndex: win.zIndex }}
+        />
+      )}
+      <Rnd
+        position={position}
+        size={size}
+        minWidth={win.minWidth}
+        minHeight={win.minHeight}
+        disableDragging={win.isMaximized}
+        enableResizing={!win.isMaximized && !win.snap}
+        dragHandleClassName="window-drag-handle"
+        style={{ zIndex: win.zIndex }}
+        onDragStart={() => focusWindow(win.id)}
+        onDrag={(e) => {
+          const pointer = 'touches' in e ? e.touches[0] : e
+          if (pointer) {
+            setSnapPreview(getDragSnapTarget(pointer.clientX, pointer.clientY, getDesktopBounds()))
+          }
+        }}
+        onDragStop={(_e, d) => {
+          if (snapPreview) {
+            snapWindow(win.id, snapPreview)
+          } else if (!win.isMaximized) {
+            // Dragging a snapped window away un-snaps it back to its own size
+            updateWindowPosition(win.id, d.x, d.y)
+            if (win.snap) snapWindow(win.id, null)
+          }
+          setSnapPreview(null)
+        }}
+        onResizeStop={(_e, _dir, ref, _delta, pos) => {
+          if (!win.isMaximized) {
+            updateWindowSize(win.id, ref.offsetWidth, ref.offsetHeight)
+            updateWindowPosition(win.id, pos.x, pos.y)
+          }
+        }}
+        onMouseDown={() => focusWindow(win.id)}
+        bounds="parent"
+        className={`absolute pointer-events-auto ${win.isFocused ? 'window-focused' : 'window-shadow'}`}
+      >
+        <div data-window-id={win.id} className="flex flex-col h-full bg-[#1e1a2a] rounded overflow-hidden border border-[#362552]">
+          {/* Title bar */}
+          <div
+            className="window-drag-handle flex items-center justify-between h-8 px-2 bg-[#2a2438] border-b border-[#362552] cursor-move select-none"
+          >
+            <div className="flex items-center gap-2 text-sm text-[#9086a3] truncate">
+              <span className="text-base">{win.icon}</span>
+              <span className="truncate">{win.title}</span>
+            </div>
 
-          <div className="flex items-center gap-1">
-            <button
-              onClick={(e) => {
-                e.stopPropagation()
-                minimizeWindow(win.id)
-              }}
-              className="p-1 rounded hover:bg-[#362552] transition-colors"
-              title="Minimize"
-            >
-              <Minus className="w-3.5 h-3.5 text-[#9086a3]" />
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation()
-                maximizeWindow(win.id)
-              }}
-              className="p-1 rounded hover:bg-[#362552] transition-colors"
-              title={win.isMaximized ? 'Restore' : 'Maximize'}
-            >
-              {win.isMaximized ? (
-                <Copy className="w-3.5 h-3.5 text-[#9086a3]" />
-              ) : (
-                <Square className="w-3.5 h-3.5 text-[#9086a3]" />
-              )}
-            </button>
-            <button
-              onClick={(e) => {
-                e.stopPropagation()
-                closeWindow(win.id)
-              }}
-              className="p-1 rounded hover:bg-[#ff4757] transition-colors group"
-              title="Close"
-            >
-              <X className="w-3.5 h-3.5 text-[#9086a3] group-hover:text-white" />
-            </button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  minimizeWindow(win.id)
+                }}
+                className="p-1 rounded hover:bg-[#362552] transition-colors"
+                title="Minimize"
+              >
+                <Minus className="w-3.5 h-3.5 text-[#9086a3]" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  maximizeWindow(win.id)
+                }}
+                className="p-1 rounded hover:bg-[#362552] transition-colors"
+                title={win.isMaximized ? 'Restore' : 'Maximize'}
+              >
+                {win.isMaximized ? (
+                  <Copy className="w-3.5 h-3.5 text-[#9086a3]" />
+                ) : (
+                  <Square className="w-3.5 h-3.5 text-[#9086a3]" />
+                )}
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  closeWindow(win.id)
+                }}
+                className="p-1 rounded hover:bg-[#ff4757] transition-colors group"
+                title="Close"
+              >
+                <X className="w-3.5 h-3.5 text-[#9086a3] group-hover:text-white" />
+              </button>
+            </div>
           </div>
-        </div>
 
-        {/* Content */}
-        <div className="flex-1 overflow-auto">
-          {win.content}
+          {/* Content */}
+          <div className="flex-1 overflow-auto">
+            <AppWindowProvider value={win.id}>
+              {renderApp(win.appId, win.props)}
+            </AppWindowProvider>
+          </div>
         </div>
-      </div>
-    </Rnd>
+      </Rnd>
+    </>
   )
 }
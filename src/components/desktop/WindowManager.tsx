@@ -1,21 +1,66 @@
 'use client'
 
-import { useState, useCallback, createContext, useContext, ReactNode } from 'react'
-import { WindowState } from './types'
+import { useState, useCallback, useEffect, useRef, createContext, useContext, ReactNode } from 'react'
+import { AppProps, WindowState } from './types'
+import { loadPersistedWindows, persistWindows } from './window-persistence'
+import { createWindowId, getApp } from './app-registry'
+import {
+  Rect,
+  SnapDirection,
+  WindowLayout,
+  getCascadeLayout,
+  getDesktopBounds,
+  getKeyboardSnapTarget,
+  getTileLayout,
+} from './window-layout'
+import { ShortcutBinding, matchesShortcut } from './shortcuts'
+import { addRecentFile } from './recent-files'
+import { Command } from './commands'
 
 interface WindowManagerContextType {
   windows: WindowState[]
-  openWindow: (window: Omit<WindowState, 'zIndex' | 'isFocused'>) => void
+  // Opens an app from the registry, or focuses its window if it is already open
+  openWindow: (appId: string, args?: AppProps) => void
+  // Closes the window unless its close guard declines
   closeWindow: (id: string) => void
+  // Asked before the window closes; returning false keeps it open
+  registerCloseGuard: (id: string, guard: () => boolean) => () => void
   minimizeWindow: (id: string) => void
   maximizeWindow: (id: string) => void
   restoreWindow: (id: string) => void
   focusWindow: (id: string) => void
   updateWindowPosition: (id: string, x: number, y: number) => void
   updateWindowSize: (id: string, width: number, height: number) => void
+  updateWindowProps: (id: string, props: AppProps) => void
+  updateWindowTitle: (id: string, title: string) => void
+  // Snaps to a half or quarter, maximizes, or with null restores the window's own geometry
+  snapWindow: (id: string, layout: WindowLayout) => void
+  // Rearrange every window that is not minimized
+  tileWindows: () => void
+  cascadeWindows: () => void
+  // Adds a keyboard shortcut; returns a function that removes it again
+  registerShortcut: (shortcut: ShortcutBinding) => () => void
+  // Desktop-wide shortcuts plus those of the focused window
+  getActiveShortcuts: () => ShortcutBinding[]
+  // Alt+` window switcher, open while Alt is held
+  switcher: WindowSwitcherState | null
+  showShortcutHelp: boolean
+  setShowShortcutHelp: (show: boolean) => void
+  // Adds a command to the command palette; returns a function that removes it again
+  registerCommand: (command: Command) => () => void
+  // Desktop-wide commands plus those of the focused window
+  getActiveCommands: () => Command[]
+  showCommandPalette: boolean
+  setShowCommandPalette: (show: boolean) => void
   topZIndex: number
 }
 
+export interface WindowSwitcherState {
+  // Windows from most to least recently focused
+  windowIds: string[]
+  selectedIndex: number
+}
+
 const WindowManagerContext = createContext<WindowManagerContextType | null>(null)
 
 export function useWindowManager() {
@@ -26,11 +71,126 @@ export function useWindowManager() {
   return context
 }
 
+// Id of the window an app is rendered in, provided by Window
+const AppWindowContext = createContext<string | null>(null)
+
+export const AppWindowProvider = AppWindowContext.Provider
+
+// Lets an app merge state into its window's props so it comes back after a
+// reload, and retitle its window. Outside a window, updates are ignored.
+export function useAppWindow() {
+  const windowId = useContext(AppWindowContext)
+  const { updateWindowProps, updateWindowTitle } = useWindowManager()
+
+  const updateProps = useCallback((props: AppProps) => {
+    if (windowId) updateWindowProps(windowId, props)
+  }, [windowId, updateWindowProps])
+
+  const setTitle = useCallback((title: string) => {
+    if (windowId) updateWindowTitle(windowId, title)
+  }, [windowId, updateWindowTitle])
+
+  return { windowId, updateProps, setTitle }
+}
+
+// Registers a shortcut that only fires while the calling app's window is
+// focused, or desktop-wide when used outside a window. The handler returns
+// false to let the keystroke through, e.g. to a text field.
+export function useShortcut(keys: string, description: string, handler: () => unknown) {
+  const windowId = useContext(AppWindowContext)
+  const { registerShortcut } = useWindowManager()
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  })
+
+  useEffect(() => registerShortcut({
+    keys,
+    description,
+    windowId,
+    run: () => handlerRef.current(),
+  }), [keys, description, windowId, registerShortcut])
+}
+
+// Lets an app keep its window open, e.g. to confirm discarding unsaved
+// changes. The guard returns false to cancel closing.
+export function useCloseGuard(guard: () => boolean) {
+  const windowId = useContext(AppWindowContext)
+  const { registerCloseGuard } = useWindowManager()
+  const guardRef = useRef(guard)
+
+  useEffect(() => {
+    guardRef.current = guard
+  })
+
+  useEffect(() => {
+    if (!windowId) return
+    return registerCloseGuard(windowId, () => guardRef.current())
+  }, [windowId, registerCloseGuard])
+}
+
+// Adds a command to the command palette, scoped like useShortcut
+export function useCommand(id: string, title: string, group: string, handler: () => void) {
+  const windowId = useContext(AppWindowContext)
+  const { registerCommand } = useWindowManager()
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  })
+
+  useEffect(() => registerCommand({
+    id,
+    title,
+    group,
+    windowId,
+    run: () => handlerRef.current(),
+  }), [id, title, group, windowId, registerCommand])
+}
+
+const BASE_Z_INDEX = 100
+
+const CASCADE_OFFSET = 30
+const MAX_CASCADE_STEPS = 8
+
 export function WindowManagerProvider({ children }: { children: ReactNode }) {
-  const [windows, setWindows] = useState<WindowState[]>([])
-  const [topZIndex, setTopZIndex] = useState(100)
+  // The desktop only renders on the client, so saved windows can be read up front
+  const [windows, setWindows] = useState<WindowState[]>(loadPersistedWindows)
+  const [topZIndex, setTopZIndex] = useState(() =>
+    Math.max(BASE_Z_INDEX, ...windows.map(w => w.zIndex))
+  )
+
+  useEffect(() => {
+    persistWindows(windows)
+  }, [windows])
+
+  const openWindow = useCallback((appId: string, args: AppProps = {}) => {
+    const app = getApp(appId)
+    if (!app) {
+      console.warn(`Cannot open unknown app: ${appId}`)
+      return
+    }
+
+    const filePath = app.filePath?.(args)
+    if (filePath) addRecentFile(filePath, appId, args)
+
+    const info = app.windowInfo?.(args)
+    const window: Omit<WindowState, 'zIndex' | 'isFocused'> = {
+      id: createWindowId(app, args),
+      appId,
+      props: args,
+      title: info?.title ?? app.title,
+      icon: info?.icon ?? app.icon,
+      ...app.defaultPosition,
+      ...app.defaultSize,
+      minWidth: app.minSize.width,
+      minHeight: app.minSize.height,
+      isMinimized: false,
+      isMaximized: false,
+      snap: null,
+    }
 
-  const openWindow = useCallback((window: Omit<WindowState, 'zIndex' | 'isFocused'>) => {
     setTopZIndex(currentZ => {
       const newZ = currentZ + 1
       setWindows(prev => {
@@ -49,16 +209,36 @@ export function WindowManagerProvider({ children }: { children: ReactNode }) {
               : { ...w, isFocused: false }
           )
         }
+        // Step each new instance down and right into the first cascade slot
+        // none of the app's open windows sits in, so they don't stack exactly
+        // on top of each other
+        const appWindows = prev.filter(w => w.appId === appId)
+        const isTaken = (step: number) => appWindows.some(w =>
+          w.x === window.x + step * CASCADE_OFFSET && w.y === window.y + step * CASCADE_OFFSET
+        )
+        let step = 0
+        while (step < MAX_CASCADE_STEPS && isTaken(step)) step++
+        const offset = (step < MAX_CASCADE_STEPS ? step : appWindows.length % MAX_CASCADE_STEPS) * CASCADE_OFFSET
         return [
           ...prev.map(w => ({ ...w, isFocused: false })),
-          { ...window, zIndex: newZ, isFocused: true }
+          { ...window, x: window.x + offset, y: window.y + offset, zIndex: newZ, isFocused: true }
         ]
       })
       return newZ
     })
   }, [])
 
+  const closeGuardsRef = useRef(new Map<string, () => boolean>())
+
+  const registerCloseGuard = useCallback((id: string, guard: () => boolean) => {
+    closeGuardsRef.current.set(id, guard)
+    return () => {
+      if (closeGuardsRef.current.get(id) === guard) closeGuardsRef.current.delete(id)
+    }
+  }, [])
+
   const closeWindow = useCallback((id: string) => {
+    if (closeGuardsRef.current.get(id)?.() === false) return
     setWindows(prev => prev.filter(w => w.id !== id))
   }, [])
 
@@ -110,17 +290,217 @@ export function WindowManagerProvider({ children }: { children: ReactNode }) {
     ))
   }, [])
 
+  const updateWindowProps = useCallback((id: string, props: AppProps) => {
+    setWindows(prev => {
+      const target = prev.find(w => w.id === id)
+      // Skip no-op updates so apps can report their state on every render
+      if (!target || Object.entries(props).every(([key, value]) => target.props[key] === value)) {
+        return prev
+      }
+      return prev.map(w =>
+        w.id === id ? { ...w, props: { ...w.props, ...props } } : w
+      )
+    })
+  }, [])
+
+  const updateWindowTitle = useCallback((id: string, title: string) => {
+    setWindows(prev => prev.some(w => w.id === id && w.title !== title)
+      ? prev.map(w => w.id === id ? { ...w, title } : w)
+      : prev
+    )
+  }, [])
+
+  const snapWindow = useCallback((id: string, layout: WindowLayout) => {
+    setWindows(prev => prev.map(w =>
+      w.id === id
+        ? { ...w, isMaximized: layout === 'maximize', snap: layout === 'maximize' ? null : layout }
+        : w
+    ))
+  }, [])
+
+  // Replaces the geometry of every visible window, in stacking order
+  const arrangeWindows = useCallback((layout: (visible: WindowState[]) => Rect[]) => {
+    setWindows(prev => {
+      const visible = prev.filter(w => !w.isMinimized).sort((a, b) => a.zIndex - b.zIndex)
+      const rects = layout(visible)
+      return prev.map(w => {
+        const index = visible.indexOf(w)
+        return index === -1 ? w : { ...w, ...rects[index], isMaximized: false, snap: null }
+      })
+    })
+  }, [])
+
+  const tileWindows = useCallback(() => {
+    arrangeWindows(visible => getTileLayout(visible.length, getDesktopBounds()))
+  }, [arrangeWindows])
+
+  const cascadeWindows = useCallback(() => {
+    arrangeWindows(visible => getCascadeLayout(visible, getDesktopBounds()))
+  }, [arrangeWindows])
+
+  const shortcutsRef = useRef(new Set<ShortcutBinding>())
+  const windowsRef = useRef(windows)
+  const [switcher, setSwitcher] = useState<WindowSwitcherState | null>(null)
+  const switcherRef = useRef(switcher)
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false)
+  const commandsRef = useRef(new Set<Command>())
+  const [showCommandPalette, setShowCommandPalette] = useState(false)
+
+  useEffect(() => {
+    windowsRef.current = windows
+    switcherRef.current = switcher
+  })
+
+  const registerShortcut = useCallback((shortcut: ShortcutBinding) => {
+    shortcutsRef.current.add(shortcut)
+    return () => {
+      shortcutsRef.current.delete(shortcut)
+    }
+  }, [])
+
+  const getActiveShortcuts = useCallback(() => {
+    const focused = windowsRef.current.find(w => w.isFocused && !w.isMinimized)
+    // The focused window's own shortcuts come first so they win over desktop ones
+    return [...shortcutsRef.current]
+      .filter(s => s.windowId === null || s.windowId === focused?.id)
+      .sort((a, b) => Number(a.windowId === null) - Number(b.windowId === null))
+  }, [])
+
+  const registerCommand = useCallback((command: Command) => {
+    commandsRef.current.add(command)
+    return () => {
+      commandsRef.current.delete(command)
+    }
+  }, [])
+
+  const getActiveCommands = useCallback(() => {
+    const focused = windowsRef.current.find(w => w.isFocused && !w.isMinimized)
+    return [...commandsRef.current].filter(c => c.windowId === null || c.windowId === focused?.id)
+  }, [])
+
+  const activateWindow = useCallback((id: string) => {
+    const target = windowsRef.current.find(w => w.id === id)
+    if (target?.isMinimized) {
+      restoreWindow(id)
+    } else if (target) {
+      focusWindow(id)
+    }
+  }, [restoreWindow, focusWindow])
+
+  const stepSwitcher = useCallback((step: number) => {
+    setSwitcher(prev => {
+      if (prev) {
+        const count = prev.windowIds.length
+        return { ...prev, selectedIndex: (prev.selectedIndex + step + count) % count }
+      }
+      // zIndex grows with every focus, so it doubles as most-recently-used order
+      const windowIds = [...windowsRef.current].sort((a, b) => b.zIndex - a.zIndex).map(w => w.id)
+      if (windowIds.length === 0) return null
+      return { windowIds, selectedIndex: windowIds.length > 1 ? (step > 0 ? 1 : windowIds.length - 1) : 0 }
+    })
+  }, [])
+
+  // Desktop-wide shortcuts and palette commands, listed alongside the apps' own
+  useEffect(() => {
+    const withFocused = (action: (win: WindowState) => void) => () => {
+      const focused = windowsRef.current.find(w => w.isFocused && !w.isMinimized)
+      if (focused) action(focused)
+    }
+    const snapFocused = (direction: SnapDirection) => withFocused(win => {
+      const target = getKeyboardSnapTarget(win.isMaximized ? 'maximize' : win.snap, direction)
+      if (target === 'minimize') {
+        minimizeWindow(win.id)
+      } else {
+        snapWindow(win.id, target)
+      }
+    })
+
+    const builtIns: Omit<ShortcutBinding, 'windowId'>[] = [
+      { keys: 'Alt+`', description: 'Switch to the next window', run: () => stepSwitcher(1) },
+      { keys: 'Alt+Shift+`', description: 'Switch to the previous window', run: () => stepSwitcher(-1) },
+      { keys: 'Ctrl+Alt+W', description: 'Close the focused window', run: withFocused(win => closeWindow(win.id)) },
+      { keys: 'Ctrl+Alt+M', description: 'Minimize the focused window', run: withFocused(win => minimizeWindow(win.id)) },
+      { keys: 'Ctrl+Alt+Enter', description: 'Maximize or restore the focused window', run: withFocused(win => maximizeWindow(win.id)) },
+      { keys: 'Ctrl+Alt+ArrowLeft', description: 'Snap the focused window left', run: snapFocused('left') },
+      { keys: 'Ctrl+Alt+ArrowRight', description: 'Snap the focused window right', run: snapFocused('right') },
+      { keys: 'Ctrl+Alt+ArrowUp', description: 'Snap the focused window up or maximize it', run: snapFocused('up') },
+      { keys: 'Ctrl+Alt+ArrowDown', description: 'Snap the focused window down, restore or minimize it', run: snapFocused('down') },
+      { keys: 'Ctrl+Alt+T', description: 'Tile all windows', run: tileWindows },
+      { keys: 'Ctrl+Alt+C', description: 'Cascade all windows', run: cascadeWindows },
+      { keys: 'Ctrl+Alt+/', description: 'Show keyboard shortcuts', run: () => setShowShortcutHelp(show => !show) },
+      { keys: 'Ctrl+K', description: 'Open the command palette', run: () => setShowCommandPalette(show => !show) },
+    ]
+
+    const commands: Omit<Command, 'windowId'>[] = [
+      { id: 'tile-windows', title: 'Tile windows', group: 'Windows', run: tileWindows },
+      { id: 'cascade-windows', title: 'Cascade windows', group: 'Windows', run: cascadeWindows },
+      { id: 'show-shortcuts', title: 'Show keyboard shortcuts', group: 'Desktop', run: () => setShowShortcutHelp(true) },
+    ]
+
+    const unregister = [
+      ...builtIns.map(shortcut => registerShortcut({ ...shortcut, windowId: null })),
+      ...commands.map(command => registerCommand({ ...command, windowId: null })),
+    ]
+    return () => unregister.forEach(remove => remove())
+  }, [registerShortcut, registerCommand, stepSwitcher, closeWindow, minimizeWindow, maximizeWindow, snapWindow, tileWindows, cascadeWindows])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && (switcherRef.current || showShortcutHelp)) {
+        e.preventDefault()
+        setSwitcher(null)
+        setShowShortcutHelp(false)
+        return
+      }
+
+      const shortcut = getActiveShortcuts().find(s => matchesShortcut(e, s.keys))
+      if (shortcut && shortcut.run() !== false) {
+        e.preventDefault()
+      }
+    }
+
+    // Releasing Alt picks the window highlighted in the switcher
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const current = switcherRef.current
+      if (e.key !== 'Alt' || !current) return
+      activateWindow(current.windowIds[current.selectedIndex])
+      setSwitcher(null)
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    document.addEventListener('keyup', handleKeyUp)
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.removeEventListener('keyup', handleKeyUp)
+    }
+  }, [getActiveShortcuts, activateWindow, showShortcutHelp])
+
   return (
     <WindowManagerContext.Provider value={{
       windows,
       openWindow,
       closeWindow,
+      registerCloseGuard,
       minimizeWindow,
       maximizeWindow,
       restoreWindow,
       focusWindow,
       updateWindowPosition,
       updateWindowSize,
+      updateWindowProps,
+      updateWindowTitle,
+      snapWindow,
+      tileWindows,
+      cascadeWindows,
+      registerShortcut,
+      getActiveShortcuts,
+      switcher,
+      showShortcutHelp,
+      setShowShortcutHelp,
+      registerCommand,
+      getActiveCommands,
+      showCommandPalette,
+      setShowCommandPalette,
       topZIndex
     }}>
       {children}
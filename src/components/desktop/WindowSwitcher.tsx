@@ -0,0 +1,36 @@
+'use client'
+
+import { useWindowManager } from './WindowManager'
+
+// Shown while Alt is held after Alt+`; releasing Alt switches to the highlighted window
+export function WindowSwitcher() {
+  const { windows, switcher } = useWindowManager()
+  if (!switcher) return null
+
+  const switcherWindows = switcher.windowIds
+    .map(id => windows.find(w => w.id === id))
+    .filter(win => win !== undefined)
+
+  return (
+    <div className="fixed inset-0 z-[100000] flex items-center justify-center pointer-events-none">
+      <div className="flex flex-wrap justify-center gap-2 max-w-[80vw] p-3 rounded-lg border border-[#362552] bg-[#1e1a2a]/95 shadow-2xl">
+        {switcherWindows.map((win, index) => (
+          <div
+            key={win.id}
+            className={`
+              flex flex-col items-center gap-2 w-32 p-3 rounded border
+              ${index === switcher.selectedIndex
+                ? 'bg-[#7553ff]/20 border-[#7553ff]/60'
+                : 'border-transparent'
+              }
+              ${win.isMinimized ? 'opacity-60' : ''}
+            `}
+          >
+            <span className="text-3xl">{win.icon}</span>
+            <span className="w-full truncate text-center text-xs text-[#e8e4f0]">{win.title}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
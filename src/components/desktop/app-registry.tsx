@@ -0,0 +1,201 @@
+'use client'
+
+import { ReactNode } from 'react'
+import { Eye, FileText, Folder, FolderOpen, LayoutGrid, MessageCircle, type LucideIcon } from 'lucide-react'
+import { AppProps } from './types'
+import { Notepad } from './apps/Notepad'
+import { Chat } from './apps/Chat'
+import { AgentsFolder } from './apps/AgentsFolder'
+import { ApplicationsFolder } from './apps/ApplicationsFolder'
+import { FilesFolder } from './apps/FilesFolder'
+import { FileViewer } from './apps/FileViewer'
+import { AgentSummary } from '@/lib/chat/agents'
+import { INSTALL_GUIDE_PATH } from '@/lib/vfs/file-system'
+import { basename } from '@/lib/vfs/paths'
+
+// Every desktop app is declared here once. Windows only store an app id and
+// the app's launch args, so this is also what turns a restored window back
+// into content after a reload.
+export interface AppDefinition {
+  id: string
+  // Folders are left out of the Applications folder; viewers only open
+  // files, so they are not listed as apps at all
+  kind: 'app' | 'folder' | 'viewer'
+  // Window title and emoji icon, unless windowInfo derives them from the args
+  title: string
+  icon: string
+  // Icon for desktop shortcuts, folders and the taskbar launcher
+  launcherIcon: LucideIcon
+  defaultPosition: { x: number, y: number }
+  defaultSize: { width: number, height: number }
+  minSize: { width: number, height: number }
+  // Each launch opens a new window with a generated instance id instead of
+  // focusing the app's existing window
+  multiInstance: boolean
+  // Shown as a launcher in the taskbar
+  pinned?: boolean
+  // Launches with the same key share one window, e.g. one Notepad per file
+  instanceKey?: (args: AppProps) => string | undefined
+  windowInfo?: (args: AppProps) => { title?: string, icon?: string }
+  // Virtual file system path a launch opens, listed under recent files in the start menu
+  filePath?: (args: AppProps) => string | undefined
+  render: (args: AppProps) => ReactNode
+}
+
+export interface DesktopShortcut {
+  id: string
+  label: string
+  icon: LucideIcon
+  appId: string
+  args?: AppProps
+}
+
+const APPS: AppDefinition[] = [
+  {
+    id: 'notepad',
+    kind: 'app',
+    title: 'Notepad',
+    icon: '📄',
+    launcherIcon: FileText,
+    defaultPosition: { x: 100, y: 50 },
+    defaultSize: { width: 600, height: 500 },
+    minSize: { width: 400, height: 300 },
+    multiInstance: true,
+    // Files open by path; content without a path is shown as-is
+    instanceKey: (args) => (args.path ?? args.filename) as string | undefined,
+    windowInfo: (args) => ({
+      title: typeof args.path === 'string' ? basename(args.path) : args.filename as string | undefined,
+    }),
+    filePath: (args) => args.path as string | undefined,
+    render: (args) => (
+      <Notepad
+        path={args.path as string | undefined}
+        content={args.content as string | undefined}
+        filename={args.filename as string | undefined}
+      />
+    ),
+  },
+  {
+    id: 'chat',
+    kind: 'app',
+    title: 'SentryOS Chat',
+    icon: '💬',
+    launcherIcon: MessageCircle,
+    defaultPosition: { x: 200, y: 80 },
+    defaultSize: { width: 500, height: 550 },
+    minSize: { width: 350, height: 400 },
+    multiInstance: true,
+    pinned: true,
+    windowInfo: (args) => {
+      const agent = args.agent as AgentSummary | undefined
+      return { title: agent?.name, icon: agent?.icon }
+    },
+    render: (args) => (
+      <Chat
+        agent={args.agent as AgentSummary | undefined}
+        conversationId={args.conversationId as string | undefined}
+        prompt={args.prompt as string | undefined}
+      />
+    ),
+  },
+  {
+    id: 'files',
+    kind: 'app',
+    title: 'Files',
+    icon: '📂',
+    launcherIcon: FolderOpen,
+    defaultPosition: { x: 160, y: 90 },
+    defaultSize: { width: 480, height: 400 },
+    minSize: { width: 320, height: 260 },
+    multiInstance: true,
+    windowInfo: (args) => ({ title: typeof args.path === 'string' ? basename(args.path) : undefined }),
+    render: (args) => <FilesFolder path={args.path as string | undefined} />,
+  },
+  {
+    id: 'viewer',
+    kind: 'viewer',
+    title: 'Viewer',
+    icon: '🖼️',
+    launcherIcon: Eye,
+    defaultPosition: { x: 220, y: 110 },
+    defaultSize: { width: 560, height: 460 },
+    minSize: { width: 300, height: 240 },
+    multiInstance: true,
+    instanceKey: (args) => (args.path ?? args.src) as string | undefined,
+    windowInfo: (args) => ({
+      title: (args.name as string | undefined) ?? (typeof args.path === 'string' ? basename(args.path) : undefined),
+    }),
+    filePath: (args) => args.path as string | undefined,
+    render: (args) => (
+      <FileViewer
+        path={args.path as string | undefined}
+        src={args.src as string | undefined}
+        name={args.name as string | undefined}
+        mimeType={args.mimeType as string | undefined}
+      />
+    ),
+  },
+  {
+    id: 'agents-folder',
+    kind: 'folder',
+    title: 'Agents',
+    icon: '📁',
+    launcherIcon: Folder,
+    defaultPosition: { x: 150, y: 100 },
+    defaultSize: { width: 400, height: 350 },
+    minSize: { width: 300, height: 250 },
+    multiInstance: false,
+    render: () => <AgentsFolder />,
+  },
+  {
+    id: 'applications-folder',
+    kind: 'folder',
+    title: 'Applications',
+    icon: '🗂️',
+    launcherIcon: LayoutGrid,
+    defaultPosition: { x: 180, y: 120 },
+    defaultSize: { width: 400, height: 350 },
+    minSize: { width: 300, height: 250 },
+    multiInstance: false,
+    render: () => <ApplicationsFolder />,
+  },
+]
+
+export const DESKTOP_SHORTCUTS: DesktopShortcut[] = [
+  {
+    id: 'install-guide',
+    label: 'Install Guide',
+    icon: FileText,
+    appId: 'notepad',
+    args: { path: INSTALL_GUIDE_PATH },
+  },
+  { id: 'files', label: 'Files', icon: FolderOpen, appId: 'files' },
+  { id: 'agents-folder', label: 'Agents', icon: Folder, appId: 'agents-folder' },
+  { id: 'applications-folder', label: 'Applications', icon: LayoutGrid, appId: 'applications-folder' },
+  { id: 'chat', label: 'Chat', icon: MessageCircle, appId: 'chat' },
+]
+
+const appsById = new Map(APPS.map(app => [app.id, app]))
+
+export function getApp(appId: string) {
+  return appsById.get(appId)
+}
+
+// Apps that can be launched on their own
+export function listApps() {
+  return APPS.filter(app => app.kind !== 'viewer')
+}
+
+export function isKnownApp(appId: string) {
+  return appsById.has(appId)
+}
+
+export function renderApp(appId: string, args: AppProps) {
+  return getApp(appId)?.render(args) ?? null
+}
+
+export function createWindowId(app: AppDefinition, args: AppProps) {
+  const key = app.instanceKey?.(args)
+  if (key) return `${app.id}:${key}`
+  return app.multiInstance ? `${app.id}-${crypto.randomUUID().slice(0, 8)}` : app.id
+}
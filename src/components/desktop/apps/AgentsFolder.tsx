@@ -0,0 +1,32 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Bot } from 'lucide-react'
+import { AgentSummary } from '@/lib/chat/agents'
+import { useWindowManager } from '../WindowManager'
+import { FolderItem, FolderView } from './FolderView'
+import { HOME_PATH } from '@/lib/vfs/paths'
+
+// The Agents folder lists the agent profiles served by /api/agents; opening
+// one starts a Chat bound to that agent
+export function AgentsFolder() {
+  const { openWindow } = useWindowManager()
+  const [agents, setAgents] = useState<AgentSummary[]>([])
+
+  useEffect(() => {
+    fetch('/api/agents')
+      .then(response => response.ok ? response.json() as Promise<{ agents: AgentSummary[] }> : { agents: [] })
+      .then(data => setAgents(data.agents))
+      .catch(error => console.error('Failed to load agents:', error))
+  }, [])
+
+  const items: FolderItem[] = agents.map(agent => ({
+    id: agent.id,
+    name: agent.name,
+    type: 'app',
+    icon: Bot,
+    onOpen: () => openWindow('chat', { agent })
+  }))
+
+  return <FolderView items={items} path={`${HOME_PATH}/Agents`} />
+}
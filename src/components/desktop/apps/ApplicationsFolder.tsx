@@ -0,0 +1,23 @@
+'use client'
+
+import { useWindowManager } from '../WindowManager'
+import { listApps } from '../app-registry'
+import { FolderItem, FolderView } from './FolderView'
+import { HOME_PATH } from '@/lib/vfs/paths'
+
+// Lists every registered app, generated from the app registry
+export function ApplicationsFolder() {
+  const { openWindow } = useWindowManager()
+
+  const items: FolderItem[] = listApps()
+    .filter(app => app.kind === 'app')
+    .map(app => ({
+      id: app.id,
+      name: app.title,
+      type: 'app',
+      icon: app.launcherIcon,
+      onOpen: () => openWindow(app.id)
+    }))
+
+  return <FolderView items={items} path={`${HOME_PATH}/Applications`} />
+}
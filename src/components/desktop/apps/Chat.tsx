@@ -1,17 +1,46 @@
 'use client'
 
-import { useState, useRef, useEffect } from 'react'
-import { Send, Bot, User, Loader2, Wrench, Search, Globe, FileText, Terminal } from 'lucide-react'
-import ReactMarkdown from 'react-markdown'
+import { useState, useRef, useEffect, useCallback, useEffectEvent } from 'react'
+import { Send, Bot, User, Loader2, PanelLeft, Square, Paperclip, FileText, FileImage, FileCode, X, AlertTriangle } from 'lucide-react'
+import ReactMarkdown, { Components } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { Conversation, ConversationMessage, ConversationSummary, ToolActivity, deriveConversationTitle } from '@/lib/chat/conversations'
+import { getConversationStore, subscribeToRemovedConversations } from '@/lib/chat/conversation-stores'
+import { CHAT_RUN_HEADER } from '@/lib/chat/protocol'
+import { followChatRun } from '@/lib/chat/run-stream'
+import { ChatSettings, DEFAULT_CHAT_SETTINGS } from '@/lib/chat/settings'
+import { AgentSummary } from '@/lib/chat/agents'
+import { ChatAttachment, UploadResponse, formatFileSize } from '@/lib/chat/attachments'
+import { ChatMediaPart, canSendInline, createThumbnail, readMediaPart } from '@/lib/chat/content-parts'
+import { ChatArtifact } from '@/lib/chat/artifacts'
+import { getPreviewKind, isTextFile } from '@/lib/vfs/file-types'
+import { basename } from '@/lib/vfs/paths'
+import { CONVERSATION_BUDGET_USD, ChatUsage, EMPTY_USAGE, addUsage, formatCost, formatTokens, totalTokens } from '@/lib/chat/usage'
+import { useAppWindow, useCommand, useShortcut, useWindowManager } from '../WindowManager'
+import { ChatSettingsMenu } from './ChatSettingsMenu'
+import { ConversationSidebar } from './ConversationSidebar'
+import { PermissionRequest, PermissionRequestCard } from './PermissionRequestCard'
+import { ToolCallBlock, ToolIcon, toolDisplayInfo } from './ToolCallBlock'
 
 interface Message {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  tools?: ToolActivity[]
+  stopped?: boolean
+  attachments?: ChatAttachment[]
+  artifacts?: ChatArtifact[]
+  usage?: ChatUsage
+}
+
+// A file waiting to be sent with the next message
+interface PendingFile {
+  id: string
+  file: File
+  thumbnail?: string
 }
 
 interface ToolStatus {
@@ -20,43 +49,174 @@ interface ToolStatus {
   elapsed?: number
 }
 
-// Map tool names to friendly display names and icons
-const toolDisplayInfo: Record<string, { name: string; icon: 'search' | 'globe' | 'file' | 'terminal' | 'wrench' }> = {
-  'WebSearch': { name: 'Web Search', icon: 'search' },
-  'WebFetch': { name: 'Fetching URL', icon: 'globe' },
-  'Read': { name: 'Reading File', icon: 'file' },
-  'Write': { name: 'Writing File', icon: 'file' },
-  'Edit': { name: 'Editing File', icon: 'file' },
-  'Glob': { name: 'Finding Files', icon: 'file' },
-  'Grep': { name: 'Searching Content', icon: 'search' },
-  'Bash': { name: 'Running Command', icon: 'terminal' },
-  'Task': { name: 'Running Task', icon: 'wrench' },
-}
+type MessageSegment =
+  | { type: 'text', text: string }
+  | { type: 'tool', tool: ToolActivity }
 
-const ToolIcon = ({ type }: { type: 'search' | 'globe' | 'file' | 'terminal' | 'wrench' }) => {
-  const iconClass = "w-3 h-3"
-  switch (type) {
-    case 'search': return <Search className={iconClass} />
-    case 'globe': return <Globe className={iconClass} />
-    case 'file': return <FileText className={iconClass} />
-    case 'terminal': return <Terminal className={iconClass} />
-    default: return <Wrench className={iconClass} />
+// Split a message into text and tool calls in the order they were streamed
+const getMessageSegments = (message: Message): MessageSegment[] => {
+  const segments: MessageSegment[] = []
+  let offset = 0
+
+  for (const tool of message.tools ?? []) {
+    const text = message.content.slice(offset, tool.contentOffset)
+    if (text.trim()) segments.push({ type: 'text', text })
+    segments.push({ type: 'tool', tool })
+    offset = Math.max(offset, tool.contentOffset)
   }
+
+  const rest = message.content.slice(offset)
+  if (rest.trim() || segments.length === 0) segments.push({ type: 'text', text: rest })
+  return segments
 }
 
-export function Chat() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 'welcome',
-      role: 'assistant',
-      content: 'Hello! I\'m the SentryOS AI Assistant. How can I help you today?',
-      timestamp: new Date()
-    }
-  ])
+// Styled renderers for assistant markdown
+const markdownComponents: Components = {
+  code({ className, children, ...props }) {
+    const match = /language-(\w+)/.exec(className || '')
+    const isInline = !match && !String(children).includes('\n')
+    return isInline ? (
+      <code className="bg-[#1e1a2a] px-1.5 py-0.5 rounded text-[#ff45a8] text-xs" {...props}>
+        {children}
+      </code>
+    ) : (
+      <SyntaxHighlighter
+        style={oneDark}
+        language={match ? match[1] : 'text'}
+        PreTag="div"
+        customStyle={{
+          margin: '0.5rem 0',
+          padding: '0.75rem',
+          borderRadius: '0.375rem',
+          fontSize: '0.75rem',
+          background: '#1e1a2a',
+        }}
+      >
+        {String(children).replace(/\n$/, '')}
+      </SyntaxHighlighter>
+    )
+  },
+  a({ href, children }) {
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#7553ff] hover:text-[#c4b5fd] underline">
+        {children}
+      </a>
+    )
+  },
+  ul({ children }) {
+    return <ul className="list-disc list-inside my-1 space-y-0.5">{children}</ul>
+  },
+  ol({ children }) {
+    return <ol className="list-decimal list-inside my-1 space-y-0.5">{children}</ol>
+  },
+  li({ children }) {
+    return <li className="text-sm">{children}</li>
+  },
+  p({ children }) {
+    return <p className="my-1">{children}</p>
+  },
+  h1({ children }) {
+    return <h1 className="text-lg font-bold mt-2 mb-1 text-[#e8e4f0]">{children}</h1>
+  },
+  h2({ children }) {
+    return <h2 className="text-base font-semibold mt-2 mb-1 text-[#c4b5fd]">{children}</h2>
+  },
+  h3({ children }) {
+    return <h3 className="text-sm font-semibold mt-1.5 mb-0.5 text-[#c4b5fd]">{children}</h3>
+  },
+  blockquote({ children }) {
+    return <blockquote className="border-l-2 border-[#7553ff] pl-2 my-1 text-[#9086a3] italic">{children}</blockquote>
+  },
+  table({ children }) {
+    return <table className="border-collapse my-2 text-xs w-full">{children}</table>
+  },
+  th({ children }) {
+    return <th className="border border-[#362552] px-2 py-1 bg-[#1e1a2a] text-left font-semibold">{children}</th>
+  },
+  td({ children }) {
+    return <td className="border border-[#362552] px-2 py-1">{children}</td>
+  },
+  hr() {
+    return <hr className="border-[#362552] my-2" />
+  },
+}
+
+const createWelcomeMessage = (agent: AgentSummary | null): Message => ({
+  id: 'welcome',
+  role: 'assistant',
+  content: agent
+    ? `Hello! I'm ${agent.name}. ${agent.description}`.trim()
+    : 'Hello! I\'m the SentryOS AI Assistant. How can I help you today?',
+  timestamp: new Date()
+})
+
+// An agent's conversations start on the agent's own model
+const createDefaultSettings = (agent: AgentSummary | null): ChatSettings => ({
+  ...DEFAULT_CHAT_SETTINGS,
+  model: agent?.model ?? DEFAULT_CHAT_SETTINGS.model
+})
+
+// How long Stop waits for the server to end the answer before disconnecting
+const STOP_TIMEOUT_MS = 5000
+
+// Retry-After from a 429, in words
+const formatRetryAfter = (seconds: number) => {
+  if (seconds < 60) return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} minutes`
+  return `${Math.ceil(seconds / (60 * 60))} hours`
+}
+
+const toConversationMessage = (message: Message): ConversationMessage => ({
+  ...message,
+  timestamp: message.timestamp.toISOString()
+})
+
+const fromConversationMessage = (message: ConversationMessage): Message => ({
+  ...message,
+  timestamp: new Date(message.timestamp)
+})
+
+interface ChatProps {
+  // Agent profile this window is bound to; new conversations start with it
+  agent?: AgentSummary
+  // Conversation to reopen, saved with the window so it survives a reload
+  conversationId?: string
+  // Message to send as soon as the window opens, e.g. from a command palette prompt
+  prompt?: string
+}
+
+export function Chat({ agent: boundAgent, conversationId: savedConversationId, prompt }: ChatProps) {
+  const { openWindow } = useWindowManager()
+  const { updateProps, setTitle } = useAppWindow()
+  // Agent of the open conversation, which can differ from the window's after opening a saved one
+  const [agent, setAgent] = useState<AgentSummary | null>(boundAgent ?? null)
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage(boundAgent ?? null)])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  // Server-side session id; the route keeps the conversation history for us
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  // Saved conversation metadata; the title stays null until named or derived on save
+  const [conversationId, setConversationId] = useState(() => savedConversationId ?? crypto.randomUUID())
+  const [conversationTitle, setConversationTitle] = useState<string | null>(null)
+  const [createdAt, setCreatedAt] = useState(() => new Date().toISOString())
+  const [updatedAt, setUpdatedAt] = useState(() => new Date().toISOString())
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [search, setSearch] = useState('')
+  const [showSidebar, setShowSidebar] = useState(false)
+  // Model, max turns and persona sent with every message of this conversation
+  const [settings, setSettings] = useState<ChatSettings>(() => createDefaultSettings(boundAgent ?? null))
   const [currentTool, setCurrentTool] = useState<ToolStatus | null>(null)
+  // Tool calls the agent is waiting on the user to approve or deny
+  const [permissionRequests, setPermissionRequests] = useState<PermissionRequest[]>([])
+  // Set while the stream dropped and the Chat is reconnecting to the run
+  const [isReconnecting, setIsReconnecting] = useState(false)
+  // Files dropped on the window, uploaded with the next message
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([])
+  const [isDragOver, setIsDragOver] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const activeRunIdRef = useRef<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
   const scrollToBottom = () => {
@@ -65,129 +225,661 @@ export function Chat() {
 
   useEffect(() => {
     scrollToBottom()
-  }, [messages, currentTool])
+  }, [messages, currentTool, permissionRequests])
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!input.trim() || isLoading) return
+  // Stop following the answer when the Chat window closes; the server keeps
+  // the run alive briefly so reopening the conversation can resume it
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const refreshConversations = useCallback(() => {
+    getConversationStore().list(search)
+      .then(setConversations)
+      .catch(error => console.error('Failed to load conversations:', error))
+  }, [search])
+
+  useEffect(() => {
+    refreshConversations()
+  }, [refreshConversations])
+
+  const saveConversation = useCallback((
+    conversationMessages: Message[],
+    conversationSessionId: string | null,
+    activeRunId: string | null
+  ) => {
+    const savedMessages = conversationMessages.map(toConversationMessage)
+    getConversationStore().save({
+      id: conversationId,
+      title: conversationTitle ?? deriveConversationTitle(savedMessages),
+      createdAt,
+      updatedAt,
+      sessionId: conversationSessionId,
+      activeRunId,
+      settings,
+      agent,
+      messages: savedMessages
+    })
+      .then(refreshConversations)
+      .catch(error => console.error('Failed to save conversation:', error))
+  }, [conversationId, conversationTitle, createdAt, updatedAt, settings, agent, refreshConversations])
+
+  // Persist the conversation whenever a turn settles
+  useEffect(() => {
+    if (isLoading || !messages.some(m => m.role === 'user')) return
+    saveConversation(messages, sessionId, null)
+  }, [messages, isLoading, sessionId, saveConversation])
+
+  const finishTurn = () => {
+    abortControllerRef.current = null
+    activeRunIdRef.current = null
+    setIsLoading(false)
+    setIsReconnecting(false)
+    setCurrentTool(null)
+    setPermissionRequests([])
+    setUpdatedAt(new Date().toISOString())
+  }
+
+  const appendErrorMessage = () => {
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: 'Sorry, I encountered an error. Please check your Claude credentials are configured correctly.',
+      timestamp: new Date()
+    }])
+  }
+
+  // Stream a run's answer into a new assistant message. Without a response
+  // the run is resumed from its first event, e.g. after reopening the conversation.
+  const followRun = async (runId: string, abortController: AbortController, response?: Response) => {
+    activeRunIdRef.current = runId
+    let streamingContent = ''
+    let streamingTools: ToolActivity[] = []
+    let streamingArtifacts: ChatArtifact[] = []
+    const streamingMessageId = crypto.randomUUID()
+
+    const updateStreamingMessage = (update: Partial<Message>) => {
+      setMessages(prev => prev.map(msg =>
+        msg.id === streamingMessageId ? { ...msg, ...update } : msg
+      ))
+    }
+
+    // Record tool calls on the message so they show inline and survive in saved history
+    const updateStreamingTools = (update: (tools: ToolActivity[]) => ToolActivity[]) => {
+      streamingTools = update(streamingTools)
+      updateStreamingMessage({ tools: streamingTools })
+    }
+
+    // Add a placeholder message for streaming content
+    setMessages(prev => [...prev, {
+      id: streamingMessageId,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date()
+    }])
+
+    try {
+      const terminalEvent = await followChatRun({
+        runId,
+        response,
+        signal: abortController.signal,
+        onReconnect: () => setIsReconnecting(true),
+        onEvent: (event) => {
+          setIsReconnecting(false)
+
+          switch (event.type) {
+            case 'session':
+              setSessionId(event.sessionId)
+              break
+            case 'text_delta':
+              // Append streaming text
+              streamingContent += event.text
+              setCurrentTool(null) // Clear tool status when text starts flowing
+              updateStreamingMessage({ content: streamingContent })
+              break
+            case 'tool_start':
+              setCurrentTool({
+                name: event.tool,
+                status: 'running'
+              })
+              updateStreamingTools(tools => [...tools, {
+                id: event.toolUseId,
+                name: event.tool,
+                input: event.input,
+                status: 'running',
+                contentOffset: streamingContent.length
+              }])
+              break
+            case 'tool_progress':
+              setCurrentTool(prev => prev ? {
+                ...prev,
+                elapsed: event.elapsed
+              } : null)
+              break
+            case 'tool_result':
+              updateStreamingTools(tools => tools.map(t =>
+                t.id === event.toolUseId
+                  ? {
+                      ...t,
+                      // A denied call also reports an error result; keep it marked as denied
+                      status: t.status === 'denied' ? 'denied' : event.isError ? 'error' : 'success',
+                      output: event.output,
+                      durationMs: event.durationMs
+                    }
+                  : t
+              ))
+              break
+            case 'artifact': {
+              // A file written twice is listed once, keeping whether this answer created it
+              const previous = streamingArtifacts.find(a => a.path === event.artifact.path)
+              streamingArtifacts = [
+                ...streamingArtifacts.filter(a => a.path !== event.artifact.path),
+                { ...event.artifact, change: previous?.change ?? event.artifact.change }
+              ]
+              updateStreamingMessage({ artifacts: streamingArtifacts })
+              break
+            }
+            case 'permission_request':
+              setPermissionRequests(prev => [...prev, {
+                requestId: event.requestId,
+                tool: event.tool,
+                input: event.input
+              }])
+              break
+            case 'permission_resolved':
+              setPermissionRequests(prev => prev.filter(r => r.requestId !== event.requestId))
+              break
+            case 'tool_denied':
+              setCurrentTool(null)
+              // Mark the refused call, or record it if we never saw it start
+              updateStreamingTools(tools => tools.some(t => t.id === event.toolUseId)
+                ? tools.map(t =>
+                    t.id === event.toolUseId
+                      ? { ...t, status: 'denied', deniedReason: event.reason }
+                      : t
+                  )
+                : [...tools, {
+                    id: event.toolUseId,
+                    name: event.tool,
+                    status: 'denied',
+                    deniedReason: event.reason,
+                    contentOffset: streamingContent.length
+                  }]
+              )
+              break
+            case 'done':
+              setCurrentTool(null)
+              updateStreamingMessage({ usage: event.usage })
+              break
+            case 'stopped':
+              // Stopped with the Stop button, from another window or abandoned
+              // too long before reconnecting
+              updateStreamingTools(tools => tools.map(t => t.status === 'running' ? { ...t, status: 'error' } : t))
+              updateStreamingMessage({ stopped: true, usage: event.usage })
+              break
+            case 'error':
+              streamingContent = 'Sorry, I encountered an error processing your request.'
+              updateStreamingMessage({ content: streamingContent, usage: event.usage })
+              setCurrentTool(null)
+              break
+          }
+        }
+      })
+
+      if (!terminalEvent) {
+        // The server finished with the run too long ago, or restarted
+        updateStreamingMessage({
+          content: streamingContent || 'This answer was interrupted and can no longer be resumed.',
+          stopped: true
+        })
+      } else if (!streamingContent && streamingTools.length === 0 && terminalEvent.type !== 'stopped') {
+        // If nothing was streamed, remove the placeholder. A stopped answer
+        // stays so the conversation total includes what it used.
+        setMessages(prev => prev.filter(msg => msg.id !== streamingMessageId))
+      }
+    } catch {
+      if (abortController.signal.aborted) {
+        // Keep whatever was streamed before the user pressed Stop
+        setMessages(prev => prev.map(msg =>
+          msg.id === streamingMessageId
+            ? {
+                ...msg,
+                stopped: true,
+                tools: msg.tools?.map(t => t.status === 'running' ? { ...t, status: 'error' } : t)
+              }
+            : msg
+        ))
+        return
+      }
+
+      setMessages(prev => prev.filter(msg => msg.id !== streamingMessageId || msg.content || msg.tools?.length))
+      appendErrorMessage()
+    } finally {
+      finishTurn()
+    }
+  }
+
+  const startNewConversation = () => {
+    const now = new Date().toISOString()
+    setAgent(boundAgent ?? null)
+    setMessages([createWelcomeMessage(boundAgent ?? null)])
+    setSessionId(null)
+    setConversationId(crypto.randomUUID())
+    setConversationTitle(null)
+    setCreatedAt(now)
+    setUpdatedAt(now)
+    setSettings(createDefaultSettings(boundAgent ?? null))
+  }
+
+  useShortcut('Ctrl+Alt+N', 'New conversation', () => {
+    if (!isLoading) startNewConversation()
+  })
+  useShortcut('Ctrl+Alt+B', 'Show or hide conversations', () => setShowSidebar(prev => !prev))
+  useCommand('chat:new-conversation', 'New conversation', 'Chat', () => {
+    if (!isLoading) startNewConversation()
+  })
+  useCommand('chat:toggle-conversations', 'Show or hide conversations', 'Chat', () => setShowSidebar(prev => !prev))
+
+  const showConversation = (conversation: Conversation) => {
+    setMessages(conversation.messages.map(fromConversationMessage))
+    setSessionId(conversation.sessionId)
+    setConversationId(conversation.id)
+    setConversationTitle(conversation.title)
+    setCreatedAt(conversation.createdAt)
+    setUpdatedAt(conversation.updatedAt)
+    setAgent(conversation.agent ?? null)
+    setSettings(conversation.settings ?? createDefaultSettings(conversation.agent ?? null))
+
+    // The conversation was saved mid-answer; pick the answer back up
+    if (conversation.activeRunId) {
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      setIsLoading(true)
+      void followRun(conversation.activeRunId, abortController)
+    }
+  }
+
+  const openConversation = async (id: string) => {
+    if (id === conversationId) return
+
+    const conversation = await getConversationStore().get(id)
+    if (!conversation) {
+      refreshConversations()
+      return
+    }
+    showConversation(conversation)
+  }
+
+  // Reopen the conversation the window showed before a reload. Unsaved
+  // conversations are not found and simply start fresh under the same id.
+  const restoreConversation = useEffectEvent((conversation: Conversation) => {
+    showConversation(conversation)
+  })
+
+  const restoreIdRef = useRef(savedConversationId)
+
+  useEffect(() => {
+    if (!restoreIdRef.current) return
+    getConversationStore().get(restoreIdRef.current)
+      .then(conversation => conversation && restoreConversation(conversation))
+      .catch(error => console.error('Failed to restore conversation:', error))
+  }, [])
+
+  useEffect(() => {
+    updateProps({ conversationId })
+  }, [conversationId, updateProps])
+
+  // What the conversation has used so far, against the configured budget
+  const conversationUsage = messages.reduce((total, message) => message.usage ? addUsage(total, message.usage) : total, EMPTY_USAGE)
+  const isOverBudget = CONVERSATION_BUDGET_USD > 0 && conversationUsage.costUsd >= CONVERSATION_BUDGET_USD
+
+  // Name the window after the conversation so several Chats can be told apart
+  const windowTitle = conversationTitle ?? (messages.some(m => m.role === 'user')
+    ? deriveConversationTitle(messages.map(toConversationMessage))
+    : agent?.name ?? 'SentryOS Chat')
+
+  useEffect(() => {
+    setTitle(windowTitle)
+  }, [windowTitle, setTitle])
+
+  const renameConversation = async (id: string, title: string) => {
+    if (id === conversationId) {
+      // The save effect writes the new title for the open conversation
+      setConversationTitle(title)
+      return
+    }
+    await getConversationStore().rename(id, title)
+    refreshConversations()
+  }
+
+  const deleteConversation = async (id: string) => {
+    // Every window, this one included, leaves the conversation when notified
+    await getConversationStore().remove(id)
+  }
+
+  // A conversation was deleted, here or in another Chat window. If this
+  // window shows it, start over instead of saving it back.
+  const handleConversationRemoved = useEffectEvent((id: string) => {
+    if (id === conversationId) {
+      const runId = activeRunIdRef.current
+      if (runId) {
+        fetch(`/api/chat/runs/${encodeURIComponent(runId)}`, { method: 'DELETE' })
+          .catch(error => console.error('Failed to stop the answer:', error))
+      }
+      abortControllerRef.current?.abort()
+      startNewConversation()
+    }
+    refreshConversations()
+  })
+
+  useEffect(() => subscribeToRemovedConversations(handleConversationRemoved), [])
+
+  // Upload files into the session's workspace, starting a session if there
+  // is none yet. Returns null after reporting a failure in the transcript.
+  const uploadFiles = async (files: File[], signal: AbortSignal): Promise<UploadResponse | null> => {
+    const form = new FormData()
+    if (sessionId) form.append('sessionId', sessionId)
+    files.forEach(file => form.append('files', file))
+
+    let response: Response
+    try {
+      response = await fetch('/api/chat/uploads', { method: 'POST', signal, body: form })
+    } catch {
+      if (!signal.aborted) appendErrorMessage()
+      return null
+    }
+    if (response.ok) return response.json()
+
+    if (response.status === 404) setSessionId(null)
+    const { error } = await response.json().catch(() => ({ error: 'Upload failed' }))
+    const retryAfter = response.status === 429 ? Number(response.headers.get('Retry-After')) : 0
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: retryAfter > 0
+        ? `Sorry, I couldn't upload the attached files: ${error}. You can try again in ${formatRetryAfter(retryAfter)}.`
+        : `Sorry, I couldn't upload the attached files: ${error}`,
+      timestamp: new Date()
+    }])
+    return null
+  }
+
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || isLoading) return
+
+    setIsLoading(true)
+    setCurrentTool(null)
+    setUpdatedAt(new Date().toISOString())
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
+    // Images and PDFs are sent inline; other attachments go up first so the
+    // agent can read them when it answers. The files stay attached on
+    // failure so the message can be sent again.
+    const inlineFiles = pendingFiles.filter(pending => canSendInline(pending.file))
+    const uploadedFiles = pendingFiles.filter(pending => !canSendInline(pending.file))
+
+    let media: ChatMediaPart[] = []
+    try {
+      media = await Promise.all(inlineFiles.map(pending => readMediaPart(pending.file)))
+    } catch (error) {
+      setMessages(prev => [...prev, {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: `Sorry, I couldn't read the attached files: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date()
+      }])
+      finishTurn()
+      return
+    }
+
+    let turnSessionId = sessionId
+    let uploadedPaths: string[] | undefined
+    const attachments: ChatAttachment[] = inlineFiles.map(({ file, thumbnail }) => ({
+      name: file.name,
+      size: file.size,
+      mimeType: file.type,
+      thumbnail,
+    }))
+    if (uploadedFiles.length > 0) {
+      const upload = await uploadFiles(uploadedFiles.map(pending => pending.file), abortController.signal)
+      if (!upload) {
+        finishTurn()
+        return
+      }
+      turnSessionId = upload.sessionId
+      uploadedPaths = upload.attachments.map(attachment => attachment.path)
+      attachments.push(...upload.attachments)
+      setSessionId(upload.sessionId)
+    }
+    setPendingFiles([])
 
     const userMessage: Message = {
       id: crypto.randomUUID(),
       role: 'user',
-      content: input.trim(),
-      timestamp: new Date()
+      content: text.trim(),
+      timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined
     }
 
     setMessages(prev => [...prev, userMessage])
     setInput('')
-    setIsLoading(true)
-    setCurrentTool(null)
 
+    let response: Response
     try {
-      const response = await fetch('/api/chat', {
+      response = await fetch('/api/chat', {
         method: 'POST',
+        signal: abortController.signal,
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content
-          }))
+          sessionId: turnSessionId,
+          message: media.length > 0 ? [...media, { type: 'text', text: userMessage.content }] : userMessage.content,
+          settings,
+          agentId: agent?.id,
+          attachments: uploadedPaths
         })
       })
+    } catch {
+      if (!abortController.signal.aborted) appendErrorMessage()
+      finishTurn()
+      return
+    }
 
-      if (!response.ok) {
-        throw new Error('Failed to get response')
-      }
-
-      // Handle SSE streaming response
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error('No response body')
-      }
-
-      const decoder = new TextDecoder()
-      let streamingContent = ''
-      const streamingMessageId = crypto.randomUUID()
-      
-      // Add a placeholder message for streaming content
+    if (response.status === 404) {
+      // The server session expired - start a fresh one on the next message
+      setSessionId(null)
       setMessages(prev => [...prev, {
-        id: streamingMessageId,
+        id: crypto.randomUUID(),
         role: 'assistant',
-        content: '',
+        content: 'This conversation has expired on the server. Send your message again to start a new session.',
         timestamp: new Date()
       }])
+      finishTurn()
+      return
+    }
 
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = decoder.decode(value)
-        const lines = chunk.split('\n')
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6)
-            if (data === '[DONE]') continue
-
-            try {
-              const parsed = JSON.parse(data)
-              
-              if (parsed.type === 'text_delta') {
-                // Append streaming text
-                streamingContent += parsed.text
-                setCurrentTool(null) // Clear tool status when text starts flowing
-                // Update the streaming message
-                setMessages(prev => prev.map(msg => 
-                  msg.id === streamingMessageId 
-                    ? { ...msg, content: streamingContent }
-                    : msg
-                ))
-              } else if (parsed.type === 'tool_start') {
-                setCurrentTool({
-                  name: parsed.tool,
-                  status: 'running'
-                })
-              } else if (parsed.type === 'tool_progress') {
-                setCurrentTool(prev => prev ? {
-                  ...prev,
-                  elapsed: parsed.elapsed
-                } : null)
-              } else if (parsed.type === 'done') {
-                setCurrentTool(null)
-              } else if (parsed.type === 'error') {
-                streamingContent = 'Sorry, I encountered an error processing your request.'
-                setMessages(prev => prev.map(msg => 
-                  msg.id === streamingMessageId 
-                    ? { ...msg, content: streamingContent }
-                    : msg
-                ))
-                setCurrentTool(null)
-              }
-            } catch {
-              // Ignore parse errors for incomplete chunks
-            }
-          }
-        }
-      }
+    if (response.status === 429) {
+      // Rate limited - say when the message can be sent again
+      const { error } = await response.json().catch(() => ({ error: 'Too many requests' }))
+      const retryAfter = Number(response.headers.get('Retry-After'))
+      setMessages(prev => [...prev, {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: retryAfter > 0
+          ? `Slow down: ${error}. You can send your message again in ${formatRetryAfter(retryAfter)}.`
+          : `Slow down: ${error}. Please try again later.`,
+        timestamp: new Date()
+      }])
+      finishTurn()
+      return
+    }
 
-      // If no content was streamed, remove the placeholder
-      if (!streamingContent) {
-        setMessages(prev => prev.filter(msg => msg.id !== streamingMessageId))
-      }
-    } catch {
-      const errorMessage: Message = {
+    if (response.status === 400) {
+      // The server rejected the request, e.g. settings it does not allow
+      const { error } = await response.json().catch(() => ({ error: 'Invalid request' }))
+      setMessages(prev => [...prev, {
         id: crypto.randomUUID(),
         role: 'assistant',
-        content: 'Sorry, I encountered an error. Please check your Claude credentials are configured correctly.',
+        content: `Sorry, I couldn't send that message: ${error}`,
         timestamp: new Date()
-      }
-      setMessages(prev => [...prev, errorMessage])
-    } finally {
-      setIsLoading(false)
-      setCurrentTool(null)
+      }])
+      finishTurn()
+      return
     }
+
+    const runId = response.headers.get(CHAT_RUN_HEADER)
+    if (!response.ok || !runId) {
+      appendErrorMessage()
+      finishTurn()
+      return
+    }
+
+    // Save before streaming so a reload mid-answer can find and resume the run
+    saveConversation([...messages, userMessage], response.headers.get('X-Session-Id'), runId)
+    await followRun(runId, abortController, response)
+  }
+
+  // Text opens in Notepad and images, HTML and PDFs in the viewer; the
+  // browser handles anything else
+  const openArtifact = (artifact: ChatArtifact) => {
+    const name = basename(artifact.path)
+    if (getPreviewKind(artifact.mimeType)) {
+      openWindow('viewer', { src: artifact.url, name, mimeType: artifact.mimeType })
+    } else if (isTextFile(artifact.mimeType)) {
+      fetch(artifact.url)
+        .then(response => {
+          if (!response.ok) throw new Error('The chat session that wrote it has expired')
+          return response.text()
+        })
+        .then(content => openWindow('notepad', { content, filename: artifact.path }))
+        .catch(error => setMessages(prev => [...prev, {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: `Sorry, I couldn't open ${name}: ${error instanceof Error ? error.message : String(error)}`,
+          timestamp: new Date()
+        }]))
+    } else {
+      window.open(artifact.url, '_blank', 'noopener')
+    }
+  }
+
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files')
+
+  // Images get a thumbnail for the chip and, once sent, the message bubble
+  const attachFiles = (files: File[]) => {
+    Promise.all(files.map(async (file): Promise<PendingFile> => ({
+      id: crypto.randomUUID(),
+      file,
+      thumbnail: file.type.startsWith('image/') ? await createThumbnail(file).catch(() => undefined) : undefined,
+    }))).then(added => setPendingFiles(prev => [...prev, ...added]))
+    inputRef.current?.focus()
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length === 0) return
+    e.preventDefault()
+    attachFiles(files)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e) || isLoading) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setIsDragOver(true)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDragOver(false)
+    if (isLoading) return
+    attachFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    sendMessage(input)
+  }
+
+  // Send the launch prompt once, then drop it from the window's props so a
+  // reload reopens the conversation instead of asking again
+  const submitPrompt = useEffectEvent((text: string) => {
+    sendMessage(text)
+    updateProps({ prompt: undefined })
+  })
+
+  const promptRef = useRef(prompt)
+
+  useEffect(() => {
+    if (!promptRef.current) return
+    // Deferred so that when development mode remounts the window right away,
+    // the unmount cancels this timer rather than aborting a request in flight
+    // and the remount sends the prompt instead
+    const timer = setTimeout(() => {
+      const text = promptRef.current
+      promptRef.current = undefined
+      if (text) submitPrompt(text)
+    })
+    return () => clearTimeout(timer)
+  }, [])
+
+  const answerPermission = async (requestId: string, approved: boolean) => {
+    let response: Response | null = null
+    try {
+      response = await fetch('/api/chat/permissions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId, requestId, approved })
+      })
+    } catch {
+      // Not delivered, so keep the card to answer again
+    }
+
+    // A 404 means the server already timed the request out; either way it is settled
+    if (response?.ok || response?.status === 404) {
+      setPermissionRequests(prev => prev.filter(r => r.requestId !== requestId))
+    }
+    if (response?.ok) return
+
+    const { error } = response
+      ? await response.json().catch(() => ({ error: `The server responded with ${response.status}` }))
+      : { error: 'The server could not be reached. Try answering again.' }
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      role: 'assistant',
+      content: `Your ${approved ? 'approval' : 'denial'} was not delivered: ${error}`,
+      timestamp: new Date()
+    }])
+  }
+
+  const stopGeneration = () => {
+    const runId = activeRunIdRef.current
+    const abortController = abortControllerRef.current
+    if (!runId) {
+      abortController?.abort()
+      return
+    }
+
+    // Dropping the connection alone would leave the run resumable, so cancel
+    // it explicitly and let its `stopped` event, which says what the answer
+    // used, end the stream. Disconnect anyway if that doesn't happen.
+    const disconnect = setTimeout(() => abortController?.abort(), STOP_TIMEOUT_MS)
+    abortController?.signal.addEventListener('abort', () => clearTimeout(disconnect))
+    fetch(`/api/chat/runs/${encodeURIComponent(runId)}`, { method: 'DELETE' })
+      .then(response => {
+        if (!response.ok) abortController?.abort()
+      })
+      .catch(error => {
+        console.error('Failed to stop the answer:', error)
+        abortController?.abort()
+      })
   }
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -198,177 +890,321 @@ export function Chat() {
   }
 
   return (
-    <div className="h-full flex flex-col bg-[#1e1a2a]">
-      {/* Header */}
-      <div className="flex items-center gap-2 px-3 py-2 border-b border-[#362552] bg-[#2a2438]">
-        <Bot className="w-5 h-5 text-[#7553ff]" />
-        <span className="text-sm text-[#e8e4f0]">SentryOS Assistant</span>
-        <span className="ml-auto text-xs text-[#9086a3]">Powered by Claude</span>
-      </div>
+    <div className="h-full flex bg-[#1e1a2a]">
+      {showSidebar && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeId={conversationId}
+          search={search}
+          disabled={isLoading}
+          onSearchChange={setSearch}
+          onSelect={openConversation}
+          onNew={startNewConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+        />
+      )}
 
-      {/* Messages */}
-      <div className="flex-1 overflow-auto p-4 space-y-4">
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : ''}`}
-          >
-            <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-              message.role === 'user' ? 'bg-[#ff45a8]/20' : 'bg-[#7553ff]/20'
-            }`}>
-              {message.role === 'user' ? (
-                <User className="w-4 h-4 text-[#ff45a8]" />
-              ) : (
-                <Bot className="w-4 h-4 text-[#7553ff]" />
-              )}
+      <div
+        className="relative flex-1 min-w-0 flex flex-col"
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false)
+        }}
+        onDrop={handleDrop}
+      >
+        {isDragOver && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center border-2 border-dashed border-[#7553ff] bg-[#1e1a2a]/80 pointer-events-none">
+            <div className="flex items-center gap-2 text-sm text-[#e8e4f0]">
+              <Paperclip className="w-4 h-4 text-[#7553ff]" />
+              Drop files to attach them to your next message
             </div>
+          </div>
+        )}
+
+        {/* Header */}
+        <div className="relative flex items-center gap-2 px-3 py-2 border-b border-[#362552] bg-[#2a2438]">
+          <button
+            onClick={() => setShowSidebar(prev => !prev)}
+            className={`p-1 -ml-1 rounded transition-colors ${showSidebar ? 'bg-[#362552]' : 'hover:bg-[#362552]'}`}
+            title={showSidebar ? 'Hide conversations' : 'Show conversations'}
+          >
+            <PanelLeft className="w-4 h-4 text-[#9086a3]" />
+          </button>
+          {agent ? (
+            <span className="text-base leading-none">{agent.icon}</span>
+          ) : (
+            <Bot className="w-5 h-5 text-[#7553ff]" />
+          )}
+          <span className="flex-1 min-w-0 text-sm text-[#e8e4f0] truncate">{agent?.name ?? 'SentryOS Assistant'}</span>
+          {conversationUsage.numTurns > 0 && (
+            <span
+              className={`shrink-0 text-[10px] ${isOverBudget ? 'text-[#f5a623]' : 'text-[#9086a3]'}`}
+              title={`This conversation: ${totalTokens(conversationUsage).toLocaleString()} tokens, ${formatCost(conversationUsage.costUsd)}`}
+            >
+              {formatTokens(totalTokens(conversationUsage))} tokens · {conversationUsage.estimated && '~'}{formatCost(conversationUsage.costUsd)}
+            </span>
+          )}
+          <ChatSettingsMenu
+            settings={settings}
+            showPersona={!agent}
+            disabled={isLoading}
+            onChange={setSettings}
+          />
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {messages.map((message) => (
             <div
-              className={`max-w-[80%] rounded-lg px-3 py-2 ${
-                message.role === 'user'
-                  ? 'bg-[#ff45a8]/10 text-[#e8e4f0]'
-                  : 'bg-[#2a2438] text-[#e8e4f0]'
-              }`}
+              key={message.id}
+              className={`flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : ''}`}
             >
-              <div className="text-sm chat-markdown">
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    code({ className, children, ...props }) {
-                      const match = /language-(\w+)/.exec(className || '')
-                      const isInline = !match && !String(children).includes('\n')
-                      return isInline ? (
-                        <code className="bg-[#1e1a2a] px-1.5 py-0.5 rounded text-[#ff45a8] text-xs" {...props}>
-                          {children}
-                        </code>
-                      ) : (
-                        <SyntaxHighlighter
-                          style={oneDark}
-                          language={match ? match[1] : 'text'}
-                          PreTag="div"
-                          customStyle={{
-                            margin: '0.5rem 0',
-                            padding: '0.75rem',
-                            borderRadius: '0.375rem',
-                            fontSize: '0.75rem',
-                            background: '#1e1a2a',
-                          }}
-                        >
-                          {String(children).replace(/\n$/, '')}
-                        </SyntaxHighlighter>
-                      )
-                    },
-                    a({ href, children }) {
+              <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+                message.role === 'user' ? 'bg-[#ff45a8]/20' : 'bg-[#7553ff]/20'
+              }`}>
+                {message.role === 'user' ? (
+                  <User className="w-4 h-4 text-[#ff45a8]" />
+                ) : (
+                  <Bot className="w-4 h-4 text-[#7553ff]" />
+                )}
+              </div>
+              <div
+                className={`max-w-[80%] rounded-lg px-3 py-2 ${
+                  message.role === 'user'
+                    ? 'bg-[#ff45a8]/10 text-[#e8e4f0]'
+                    : 'bg-[#2a2438] text-[#e8e4f0]'
+                }`}
+              >
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="flex flex-wrap items-end gap-1 mb-1">
+                    {message.attachments.map((attachment, index) => attachment.thumbnail ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        key={index}
+                        src={attachment.thumbnail}
+                        alt={attachment.name}
+                        title={attachment.name}
+                        className="max-h-24 max-w-40 rounded border border-[#362552] object-cover"
+                      />
+                    ) : (
+                      <span
+                        key={index}
+                        className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-[#1e1a2a]/60 text-[11px] text-[#9086a3]"
+                        title={attachment.path ?? attachment.name}
+                      >
+                        {attachment.mimeType === 'application/pdf' ? <FileText className="w-3 h-3" /> : <Paperclip className="w-3 h-3" />}
+                        {attachment.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {getMessageSegments(message).map((segment, index) =>
+                  segment.type === 'tool' ? (
+                    <ToolCallBlock key={segment.tool.id} tool={segment.tool} />
+                  ) : (
+                    <div key={index} className="text-sm chat-markdown">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                        {segment.text}
+                      </ReactMarkdown>
+                    </div>
+                  )
+                )}
+                {message.artifacts && message.artifacts.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {message.artifacts.map((artifact) => {
+                      const Icon = getPreviewKind(artifact.mimeType) === 'image'
+                        ? FileImage
+                        : artifact.mimeType === 'text/html' ? FileCode : FileText
                       return (
-                        <a href={href} target="_blank" rel="noopener noreferrer" className="text-[#7553ff] hover:text-[#c4b5fd] underline">
-                          {children}
-                        </a>
+                        <button
+                          key={artifact.path}
+                          onClick={() => openArtifact(artifact)}
+                          className="flex items-center gap-1.5 px-2 py-1 rounded border border-[#362552] bg-[#1e1a2a] hover:border-[#7553ff] text-xs text-[#e8e4f0] transition-colors"
+                          title={`Open ${artifact.path}`}
+                        >
+                          <Icon className="w-3.5 h-3.5 text-[#7553ff]" />
+                          <span className="max-w-48 truncate">{artifact.path}</span>
+                          <span className="text-[10px] text-[#9086a3]">
+                            {artifact.change === 'created' ? 'new' : 'edited'} · {formatFileSize(artifact.size)}
+                          </span>
+                        </button>
                       )
-                    },
-                    ul({ children }) {
-                      return <ul className="list-disc list-inside my-1 space-y-0.5">{children}</ul>
-                    },
-                    ol({ children }) {
-                      return <ol className="list-decimal list-inside my-1 space-y-0.5">{children}</ol>
-                    },
-                    li({ children }) {
-                      return <li className="text-sm">{children}</li>
-                    },
-                    p({ children }) {
-                      return <p className="my-1">{children}</p>
-                    },
-                    h1({ children }) {
-                      return <h1 className="text-lg font-bold mt-2 mb-1 text-[#e8e4f0]">{children}</h1>
-                    },
-                    h2({ children }) {
-                      return <h2 className="text-base font-semibold mt-2 mb-1 text-[#c4b5fd]">{children}</h2>
-                    },
-                    h3({ children }) {
-                      return <h3 className="text-sm font-semibold mt-1.5 mb-0.5 text-[#c4b5fd]">{children}</h3>
-                    },
-                    blockquote({ children }) {
-                      return <blockquote className="border-l-2 border-[#7553ff] pl-2 my-1 text-[#9086a3] italic">{children}</blockquote>
-                    },
-                    table({ children }) {
-                      return <table className="border-collapse my-2 text-xs w-full">{children}</table>
-                    },
-                    th({ children }) {
-                      return <th className="border border-[#362552] px-2 py-1 bg-[#1e1a2a] text-left font-semibold">{children}</th>
-                    },
-                    td({ children }) {
-                      return <td className="border border-[#362552] px-2 py-1">{children}</td>
-                    },
-                    hr() {
-                      return <hr className="border-[#362552] my-2" />
-                    },
-                  }}
-                >
-                  {message.content}
-                </ReactMarkdown>
+                    })}
+                  </div>
+                )}
+                <span className="text-[10px] text-[#9086a3] mt-1 block">
+                  {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {message.stopped && ' · Stopped'}
+                </span>
+                {message.usage && (
+                  <span
+                    className="text-[10px] text-[#9086a3]/70 block"
+                    title={[
+                      `Input: ${message.usage.inputTokens.toLocaleString()} tokens`,
+                      `Cache write: ${message.usage.cacheCreationInputTokens.toLocaleString()} tokens`,
+                      `Cache read: ${message.usage.cacheReadInputTokens.toLocaleString()} tokens`,
+                      `Output: ${message.usage.outputTokens.toLocaleString()} tokens`,
+                      ...(message.usage.estimated ? ['Cost estimated from list prices'] : []),
+                    ].join('\n')}
+                  >
+                    {formatTokens(totalTokens(message.usage) - message.usage.outputTokens)} in · {formatTokens(message.usage.outputTokens)} out
+                    {' · '}{message.usage.estimated && '~'}{formatCost(message.usage.costUsd)}
+                    {' · '}{(message.usage.durationMs / 1000).toFixed(1)}s
+                    {' · '}{message.usage.numTurns} {message.usage.numTurns === 1 ? 'turn' : 'turns'}
+                  </span>
+                )}
               </div>
-              <span className="text-[10px] text-[#9086a3] mt-1 block">
-                {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
             </div>
-          </div>
-        ))}
+          ))}
 
-        {isLoading && (
-          <div className="flex gap-3">
-            <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-[#7553ff]/20">
-              <Bot className="w-4 h-4 text-[#7553ff]" />
+          {permissionRequests.map((request) => (
+            <div key={request.requestId} className="flex gap-3">
+              <div className="flex-shrink-0 w-8 h-8" />
+              <div className="flex-1 max-w-[80%]">
+                <PermissionRequestCard
+                  request={request}
+                  toolLabel={toolDisplayInfo[request.tool]?.name || request.tool}
+                  onAnswer={(approved) => answerPermission(request.requestId, approved)}
+                />
+              </div>
             </div>
-            <div className="bg-[#2a2438] rounded-lg px-3 py-2 space-y-2">
-              {currentTool ? (
-                <div className="flex items-center gap-2">
-                  <div className="flex items-center gap-1.5 px-2 py-1 bg-[#7553ff]/20 rounded text-[#7553ff]">
-                    <ToolIcon type={toolDisplayInfo[currentTool.name]?.icon || 'wrench'} />
-                    <span className="text-xs font-medium">
-                      {toolDisplayInfo[currentTool.name]?.name || currentTool.name}
-                    </span>
+          ))}
+
+          {isLoading && (
+            <div className="flex gap-3">
+              <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-[#7553ff]/20">
+                <Bot className="w-4 h-4 text-[#7553ff]" />
+              </div>
+              <div className="bg-[#2a2438] rounded-lg px-3 py-2 space-y-2">
+                {isReconnecting ? (
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 text-[#9086a3] animate-spin" />
+                    <span className="text-sm text-[#9086a3]">Reconnecting...</span>
                   </div>
-                  <Loader2 className="w-3 h-3 text-[#7553ff] animate-spin" />
-                  {currentTool.elapsed !== undefined && (
-                    <span className="text-[10px] text-[#9086a3]">
-                      {currentTool.elapsed.toFixed(1)}s
-                    </span>
-                  )}
-                </div>
-              ) : (
-                <div className="flex items-center gap-2">
-                  <Loader2 className="w-4 h-4 text-[#7553ff] animate-spin" />
-                  <span className="text-sm text-[#9086a3]">Thinking...</span>
-                </div>
-              )}
+                ) : currentTool ? (
+                  <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-1.5 px-2 py-1 bg-[#7553ff]/20 rounded text-[#7553ff]">
+                      <ToolIcon type={toolDisplayInfo[currentTool.name]?.icon || 'wrench'} />
+                      <span className="text-xs font-medium">
+                        {toolDisplayInfo[currentTool.name]?.name || currentTool.name}
+                      </span>
+                    </div>
+                    <Loader2 className="w-3 h-3 text-[#7553ff] animate-spin" />
+                    {currentTool.elapsed !== undefined && (
+                      <span className="text-[10px] text-[#9086a3]">
+                        {currentTool.elapsed.toFixed(1)}s
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 text-[#7553ff] animate-spin" />
+                    <span className="text-sm text-[#9086a3]">Thinking...</span>
+                  </div>
+                )}
+              </div>
             </div>
+          )}
+
+          <div ref={messagesEndRef} />
+        </div>
+
+        {isOverBudget && (
+          <div className="flex items-center gap-2 px-3 py-1.5 border-t border-[#f5a623]/50 bg-[#f5a623]/10 text-xs text-[#f5a623]">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            <span>
+              This conversation has cost {formatCost(conversationUsage.costUsd)}, over its {formatCost(CONVERSATION_BUDGET_USD)} budget.
+              Start a new conversation to reset it.
+            </span>
           </div>
         )}
 
-        <div ref={messagesEndRef} />
+        {/* Input */}
+        <form onSubmit={handleSubmit} className="p-3 border-t border-[#362552] bg-[#2a2438]">
+          {pendingFiles.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {pendingFiles.map(({ id, file, thumbnail }) => (
+                <span
+                  key={id}
+                  className="flex items-center gap-1 pl-1 pr-1 py-0.5 rounded bg-[#1e1a2a] border border-[#362552] text-xs text-[#e8e4f0]"
+                >
+                  {thumbnail ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={thumbnail} alt="" className="w-6 h-6 rounded object-cover" />
+                  ) : file.type === 'application/pdf' ? (
+                    <FileText className="w-3 h-3 ml-1 text-[#9086a3]" />
+                  ) : (
+                    <Paperclip className="w-3 h-3 ml-1 text-[#9086a3]" />
+                  )}
+                  <span className="max-w-40 truncate" title={file.name}>{file.name}</span>
+                  <span className="text-[#9086a3]">{formatFileSize(file.size)}</span>
+                  <button
+                    type="button"
+                    onClick={() => setPendingFiles(prev => prev.filter(pending => pending.id !== id))}
+                    disabled={isLoading}
+                    className="p-0.5 rounded hover:bg-[#362552] text-[#9086a3] hover:text-[#e8e4f0]"
+                    title={`Remove ${file.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                attachFiles(Array.from(e.target.files ?? []))
+                e.target.value = ''
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              className="px-2 rounded text-[#9086a3] hover:text-[#e8e4f0] hover:bg-[#362552] disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Attach files"
+            >
+              <Paperclip className="w-4 h-4" />
+            </button>
+            <textarea
+              ref={inputRef}
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder="Type a message..."
+              className="flex-1 bg-[#1e1a2a] text-[#e8e4f0] text-sm rounded px-3 py-2 border border-[#362552] focus:border-[#7553ff] focus:outline-none resize-none placeholder:text-[#9086a3]"
+              rows={2}
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={stopGeneration}
+                className="px-3 py-2 bg-[#ff4757] hover:bg-[#ff6b78] rounded transition-colors"
+                title="Stop generating"
+              >
+                <Square className="w-5 h-5 text-white fill-white" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!input.trim()}
+                className="px-3 py-2 bg-[#7553ff] hover:bg-[#8c6fff] disabled:bg-[#362552] disabled:cursor-not-allowed rounded transition-colors"
+              >
+                <Send className="w-5 h-5 text-white" />
+              </button>
+            )}
+          </div>
+          <p className="text-[10px] text-[#9086a3] mt-1.5">Press Enter to send, Shift+Enter for new line. Paste or drop images, PDFs and other files to attach them</p>
+        </form>
       </div>
-
-      {/* Input */}
-      <form onSubmit={handleSubmit} className="p-3 border-t border-[#362552] bg-[#2a2438]">
-        <div className="flex gap-2">
-          <textarea
-            ref={inputRef}
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Type a message..."
-            className="flex-1 bg-[#1e1a2a] text-[#e8e4f0] text-sm rounded px-3 py-2 border border-[#362552] focus:border-[#7553ff] focus:outline-none resize-none placeholder:text-[#9086a3]"
-            rows={2}
-            disabled={isLoading}
-          />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="px-3 py-2 bg-[#7553ff] hover:bg-[#8c6fff] disabled:bg-[#362552] disabled:cursor-not-allowed rounded transition-colors"
-          >
-            <Send className="w-5 h-5 text-white" />
-          </button>
-        </div>
-        <p className="text-[10px] text-[#9086a3] mt-1.5">Press Enter to send, Shift+Enter for new line</p>
-      </form>
     </div>
   )
 }
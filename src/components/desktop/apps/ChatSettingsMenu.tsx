@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { SlidersHorizontal } from 'lucide-react'
+import {
+  ChatSettings,
+  CHAT_MODELS,
+  MAX_MAX_TURNS,
+  MIN_MAX_TURNS,
+  SYSTEM_PROMPT_PRESETS,
+} from '@/lib/chat/settings'
+
+interface ChatSettingsMenuProps {
+  settings: ChatSettings
+  disabled?: boolean
+  // Agents bring their own system prompt, so the persona choice is hidden for them
+  showPersona?: boolean
+  onChange: (settings: ChatSettings) => void
+}
+
+const fieldClass = 'w-full bg-[#1e1a2a] text-xs text-[#e8e4f0] px-2 py-1 rounded border border-[#362552] focus:border-[#7553ff] focus:outline-none disabled:opacity-50'
+
+// Header button showing the current model, with a panel to change the settings
+export function ChatSettingsMenu({ settings, disabled, showPersona = true, onChange }: ChatSettingsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOpen])
+
+  const model = CHAT_MODELS.find(m => m.id === settings.model)
+  const preset = SYSTEM_PROMPT_PRESETS.find(p => p.id === settings.preset)
+
+  return (
+    <div ref={menuRef} className="ml-auto -mr-1">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-1.5 px-1.5 py-1 rounded text-xs text-[#9086a3] transition-colors ${isOpen ? 'bg-[#362552]' : 'hover:bg-[#362552]'}`}
+        title="Conversation settings"
+      >
+        {model?.label ?? settings.model}
+        <SlidersHorizontal className="w-3.5 h-3.5" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-2 top-full mt-1 z-10 w-60 p-3 space-y-3 rounded-lg border border-[#362552] bg-[#2a2438] shadow-lg">
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase tracking-wide text-[#9086a3]">Model</span>
+            <select
+              value={settings.model}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+              disabled={disabled}
+              className={fieldClass}
+            >
+              {CHAT_MODELS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {showPersona && (
+            <label className="block space-y-1">
+              <span className="text-[10px] uppercase tracking-wide text-[#9086a3]">Persona</span>
+              <select
+                value={settings.preset}
+                onChange={(e) => onChange({ ...settings, preset: e.target.value })}
+                disabled={disabled}
+                className={fieldClass}
+              >
+                {SYSTEM_PROMPT_PRESETS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              {preset && <p className="text-[10px] text-[#9086a3]">{preset.description}</p>}
+            </label>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-[10px] uppercase tracking-wide text-[#9086a3]">Max turns</span>
+            <input
+              type="number"
+              min={MIN_MAX_TURNS}
+              max={MAX_MAX_TURNS}
+              value={settings.maxTurns}
+              onChange={(e) => {
+                const maxTurns = Math.round(Number(e.target.value))
+                if (maxTurns >= MIN_MAX_TURNS && maxTurns <= MAX_MAX_TURNS) {
+                  onChange({ ...settings, maxTurns })
+                }
+              }}
+              disabled={disabled}
+              className={fieldClass}
+            />
+            <p className="text-[10px] text-[#9086a3]">How many steps the agent may take per answer</p>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Search, Pencil, Trash2, Check, X, MessageSquare } from 'lucide-react'
+import { ConversationSummary } from '@/lib/chat/conversations'
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[]
+  activeId: string
+  search: string
+  disabled?: boolean
+  onSearchChange: (search: string) => void
+  onSelect: (id: string) => void
+  onNew: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+}
+
+const formatUpdatedAt = (iso: string) => {
+  const date = new Date(iso)
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  search,
+  disabled,
+  onSearchChange,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id)
+    setDraftTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <div className="w-48 flex-shrink-0 flex flex-col border-r border-[#362552] bg-[#15121d]">
+      <div className="p-2 space-y-2 border-b border-[#362552]">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs text-white bg-[#7553ff] hover:bg-[#8c6fff] disabled:bg-[#362552] disabled:cursor-not-allowed rounded transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          New chat
+        </button>
+        <div className="flex items-center gap-1.5 px-2 py-1 bg-[#1e1a2a] border border-[#362552] rounded focus-within:border-[#7553ff]">
+          <Search className="w-3 h-3 text-[#9086a3]" />
+          <input
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search..."
+            className="w-full bg-transparent text-xs text-[#e8e4f0] focus:outline-none placeholder:text-[#9086a3]"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-1 space-y-0.5">
+        {conversations.length === 0 && (
+          <p className="px-2 py-3 text-[10px] text-center text-[#9086a3]">
+            {search ? 'No matching conversations' : 'No saved conversations'}
+          </p>
+        )}
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeId
+
+          if (editingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="flex items-center gap-1 px-1 py-1 rounded bg-[#2a2438]">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename()
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  className="flex-1 min-w-0 bg-[#1e1a2a] text-xs text-[#e8e4f0] px-1 py-0.5 rounded border border-[#7553ff] focus:outline-none"
+                />
+                <button onClick={commitRename} className="p-0.5 rounded hover:bg-[#362552]" title="Save">
+                  <Check className="w-3 h-3 text-[#9086a3]" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-0.5 rounded hover:bg-[#362552]" title="Cancel">
+                  <X className="w-3 h-3 text-[#9086a3]" />
+                </button>
+              </div>
+            )
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              onClick={() => !disabled && onSelect(conversation.id)}
+              className={`group flex items-start gap-1.5 px-2 py-1.5 rounded cursor-default transition-colors ${
+                isActive ? 'bg-[#7553ff]/20' : 'hover:bg-[#2a2438]'
+              } ${disabled && !isActive ? 'opacity-50' : ''}`}
+              title={conversation.title}
+            >
+              <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0 text-[#7553ff]" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-[#e8e4f0] truncate">{conversation.title}</p>
+                <p className="text-[10px] text-[#9086a3]">{formatUpdatedAt(conversation.updatedAt)}</p>
+              </div>
+              <div className="hidden group-hover:flex items-center">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    startRename(conversation)
+                  }}
+                  className="p-0.5 rounded hover:bg-[#362552]"
+                  title="Rename"
+                >
+                  <Pencil className="w-3 h-3 text-[#9086a3]" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (window.confirm(`Delete the conversation "${conversation.title}"? This can't be undone.`)) {
+                      onDelete(conversation.id)
+                    }
+                  }}
+                  disabled={disabled && isActive}
+                  className="p-0.5 rounded hover:bg-[#ff4757] disabled:hidden group/delete"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3 text-[#9086a3] group-hover/delete:text-white" />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { getFileSystem } from '@/lib/vfs/file-system'
+import { basename } from '@/lib/vfs/paths'
+import { getPreviewKind, guessMimeType, isActiveContent } from '@/lib/vfs/file-types'
+
+interface FileViewerProps {
+  // File in the virtual file system to show
+  path?: string
+  // Or a URL to load it from, e.g. a file the chat agent wrote
+  src?: string
+  name?: string
+  mimeType?: string
+}
+
+// Shows images, HTML pages and PDFs. HTML runs sandboxed, without access to
+// the desktop's origin.
+export function FileViewer({ path, src, name, mimeType }: FileViewerProps) {
+  const [blobUrl, setBlobUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileName = name ?? (path ? basename(path) : 'File')
+  const type = mimeType ?? guessMimeType(fileName)
+  const kind = getPreviewKind(type)
+  const url = src ?? blobUrl
+  // The server sandboxes pages it serves, but a blob URL opened in a tab
+  // would run a page with the desktop's origin
+  const canOpenInTab = Boolean(src) || (url !== null && !isActiveContent(type))
+
+  useEffect(() => {
+    if (!path || src) return
+    let objectUrl: string | null = null
+    getFileSystem().readBlob(path)
+      .then(blob => {
+        objectUrl = URL.createObjectURL(blob)
+        setBlobUrl(objectUrl)
+      })
+      .catch(error => setError(error instanceof Error ? error.message : String(error)))
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [path, src])
+
+  return (
+    <div className="h-full flex flex-col bg-[#1e1a2a]">
+      <div className="flex items-center gap-2 px-3 py-1 border-b border-[#362552] bg-[#2a2438] text-xs text-[#9086a3]">
+        <span className="flex-1 min-w-0 truncate" title={path ?? src}>{path ?? fileName}</span>
+        {canOpenInTab && url && (
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="p-1 rounded hover:bg-[#362552] hover:text-[#e8e4f0]"
+            title="Open in a new tab"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center overflow-auto">
+        {error ? (
+          <span className="px-4 text-sm text-[#ff4757]">{error}</span>
+        ) : !url ? null : kind === 'image' ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={url}
+            alt={fileName}
+            onError={() => setError(`Could not load ${fileName}. If it came from a chat, the session may have expired.`)}
+            className="max-w-full max-h-full object-contain"
+          />
+        ) : kind === 'html' ? (
+          <iframe src={url} title={fileName} sandbox="allow-scripts" className="w-full h-full bg-white" />
+        ) : kind === 'pdf' ? (
+          <iframe src={url} title={fileName} className="w-full h-full" />
+        ) : (
+          <span className="px-4 text-sm text-[#9086a3]">
+            No preview for {fileName}.{canOpenInTab && ' Open it in a new tab instead.'}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
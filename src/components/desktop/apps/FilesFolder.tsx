@@ -0,0 +1,93 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { FileSystemEntry, getFileSystem, importFiles } from '@/lib/vfs/file-system'
+import { HOME_PATH, basename, joinPath, uniqueName } from '@/lib/vfs/paths'
+import { useAppWindow } from '../WindowManager'
+import { getEntryIcon, useOpenEntry } from '../file-entries'
+import { FolderItem, FolderView } from './FolderView'
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+interface FilesFolderProps {
+  // Folder to show, saved with the window so it survives a reload
+  path?: string
+}
+
+// Browses the virtual file system. Folders open in place; files open in the
+// app for their type.
+export function FilesFolder({ path: initialPath = HOME_PATH }: FilesFolderProps) {
+  const openEntry = useOpenEntry()
+  const { updateProps, setTitle } = useAppWindow()
+  const [path, setPath] = useState(initialPath)
+  const [entries, setEntries] = useState<FileSystemEntry[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(() => {
+    getFileSystem().list(path)
+      .then(setEntries)
+      .catch(error => {
+        setEntries([])
+        setError(errorMessage(error))
+      })
+  }, [path])
+
+  useEffect(() => {
+    refresh()
+    return getFileSystem().subscribe(refresh)
+  }, [refresh])
+
+  useEffect(() => {
+    updateProps({ path })
+    setTitle(basename(path))
+  }, [path, updateProps, setTitle])
+
+  const navigate = (folderPath: string) => {
+    setPath(folderPath)
+    setError(null)
+  }
+
+  // Runs a file operation, reporting failures in the status bar
+  const run = async <T,>(operation: () => Promise<T>) => {
+    setError(null)
+    try {
+      return await operation()
+    } catch (error) {
+      setError(errorMessage(error))
+      return null
+    }
+  }
+
+  const toItem = (entry: FileSystemEntry): FolderItem => ({
+    id: entry.path,
+    name: entry.name,
+    type: entry.type,
+    icon: getEntryIcon(entry),
+    path: entry.path,
+    onOpen: () => entry.type === 'folder' ? navigate(entry.path) : openEntry(entry),
+  })
+
+  const create = async (type: FileSystemEntry['type']) => {
+    const name = uniqueName(type === 'folder' ? 'New Folder' : 'Untitled.md', entries.map(entry => entry.name))
+    const fileSystem = getFileSystem()
+    const entry = await run(() => type === 'folder'
+      ? fileSystem.createFolder(joinPath(path, name))
+      : fileSystem.writeFile(joinPath(path, name), ''))
+    return entry && toItem(entry)
+  }
+
+  return (
+    <FolderView
+      items={entries.map(toItem)}
+      path={path}
+      onNavigate={navigate}
+      onCreateFolder={() => create('folder')}
+      onCreateFile={() => create('file')}
+      onRename={(item, name) => run(() => getFileSystem().rename(item.id, name))}
+      onDelete={(item) => run(() => getFileSystem().remove(item.id))}
+      onMove={(item, folderPath) => run(() => getFileSystem().move(item.id, folderPath))}
+      onImportFiles={(files, folderPath) => run(() => importFiles(getFileSystem(), folderPath, files))}
+      error={error}
+    />
+  )
+}
@@ -1,37 +1,74 @@
 'use client'
 
-import { Folder, FileText, MessageCircle } from 'lucide-react'
+import { ChevronRight, Check, FilePlus, Folder, FolderPlus, Pencil, Trash2, X, type LucideIcon } from 'lucide-react'
 import { useState, useRef } from 'react'
+import { getBreadcrumbs } from '@/lib/vfs/paths'
+import { useWindowManager } from '../WindowManager'
+import { MenuBar } from '../MenuBar'
 
 export interface FolderItem {
   id: string
   name: string
   type: 'folder' | 'file' | 'app'
-  icon?: 'folder' | 'document' | 'chat'
+  icon?: LucideIcon
+  // Location in the virtual file system; folders with a path accept dropped items
+  path?: string
   onOpen?: () => void
 }
 
+// Data type for items dragged between folders
+const ITEM_DRAG_TYPE = 'application/x-sentryos-path'
+
 interface FolderViewProps {
   items: FolderItem[]
-  folderName: string
+  // Shown as breadcrumbs, e.g. /home/sentry/Documents
+  path: string
+  // Set when the breadcrumbs lead somewhere; virtual folders leave it out
+  onNavigate?: (path: string) => void
+  // File operations; their toolbar buttons only show when provided. The
+  // create callbacks return the new item so it can be named right away.
+  onCreateFolder?: () => Promise<FolderItem | null>
+  onCreateFile?: () => Promise<FolderItem | null>
+  onRename?: (item: FolderItem, name: string) => void
+  onDelete?: (item: FolderItem) => void
+  onMove?: (item: FolderItem, folderPath: string) => void
+  // Files dropped from the user's computer onto the view or one of its folders
+  onImportFiles?: (files: File[], folderPath: string) => void
+  // Failed operation to show in the status bar
+  error?: string | null
 }
 
-const iconComponents = {
-  folder: Folder,
-  document: FileText,
-  chat: MessageCircle,
-}
+const toolbarButtonClass = 'p-1 rounded hover:bg-[#362552] disabled:opacity-40 disabled:hover:bg-transparent'
 
-export function FolderView({ items, folderName }: FolderViewProps) {
+export function FolderView({
+  items,
+  path,
+  onNavigate,
+  onCreateFolder,
+  onCreateFile,
+  onRename,
+  onDelete,
+  onMove,
+  onImportFiles,
+  error,
+}: FolderViewProps) {
+  const { setShowShortcutHelp } = useWindowManager()
   const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [viewAsList, setViewAsList] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  // Folder or breadcrumb an item is being dragged over
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
   const clickTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const clickCountRef = useRef(0)
   const lastClickedIdRef = useRef<string | null>(null)
 
+  const selectedItem = items.find(item => item.id === selectedId) ?? null
+
   const handleItemClick = (e: React.MouseEvent, item: FolderItem) => {
     e.preventDefault()
     e.stopPropagation()
-    
+
     // Reset if clicking a different item
     if (lastClickedIdRef.current !== item.id) {
       clickCountRef.current = 0
@@ -40,9 +77,9 @@ export function FolderView({ items, folderName }: FolderViewProps) {
       }
     }
     lastClickedIdRef.current = item.id
-    
+
     clickCountRef.current += 1
-    
+
     if (clickCountRef.current === 1) {
       // First click - wait to see if there's a second click
       clickTimeoutRef.current = setTimeout(() => {
@@ -63,47 +100,262 @@ export function FolderView({ items, folderName }: FolderViewProps) {
     }
   }
 
+  const startRename = (item: FolderItem) => {
+    setSelectedId(item.id)
+    setEditingId(item.id)
+    setDraftName(item.name)
+  }
+
+  const commitRename = (item: FolderItem) => {
+    if (draftName.trim() && draftName.trim() !== item.name) {
+      onRename?.(item, draftName.trim())
+    }
+    setEditingId(null)
+  }
+
+  // Deleting can't be undone and takes a folder's contents with it
+  const confirmDelete = (item: FolderItem) => {
+    const message = item.type === 'folder'
+      ? `Delete the folder ${item.name} and everything in it? This can't be undone.`
+      : `Delete ${item.name}? This can't be undone.`
+    if (window.confirm(message)) onDelete?.(item)
+  }
+
+  const create = async (createItem: () => Promise<FolderItem | null>) => {
+    const item = await createItem()
+    if (item && onRename) startRename(item)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selectedItem || editingId) return
+    if (e.key === 'F2' && onRename) {
+      e.preventDefault()
+      startRename(selectedItem)
+    } else if (e.key === 'Delete' && onDelete) {
+      e.preventDefault()
+      confirmDelete(selectedItem)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      selectedItem.onOpen?.()
+    }
+  }
+
+  const acceptsDrag = (e: React.DragEvent) =>
+    (onMove && e.dataTransfer.types.includes(ITEM_DRAG_TYPE)) ||
+    (onImportFiles && e.dataTransfer.types.includes('Files'))
+
+  // Handlers that make the view, a folder or a breadcrumb accept dragged
+  // items and files dropped from the user's computer
+  const dropHandlers = (folderPath: string) => onMove || onImportFiles ? {
+    onDragOver: (e: React.DragEvent) => {
+      // A folder inside the view already took it
+      if (e.defaultPrevented || !acceptsDrag(e)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = e.dataTransfer.types.includes('Files') ? 'copy' : 'move'
+      setDropTarget(folderPath)
+    },
+    onDragLeave: () => setDropTarget(prev => prev === folderPath ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      if (!acceptsDrag(e)) return
+      e.preventDefault()
+      e.stopPropagation()
+      setDropTarget(null)
+
+      if (e.dataTransfer.files.length > 0) {
+        onImportFiles?.(Array.from(e.dataTransfer.files), folderPath)
+        return
+      }
+      const draggedId = e.dataTransfer.getData(ITEM_DRAG_TYPE)
+      const dragged = items.find(item => item.id === draggedId)
+      if (dragged && dragged.path !== folderPath) onMove?.(dragged, folderPath)
+    },
+  } : {}
+
   return (
     <div className="h-full flex flex-col bg-[#1e1a2a]">
-      {/* Menu bar */}
-      <div className="flex items-center gap-4 px-2 py-1 border-b border-[#362552] bg-[#2a2438] text-xs text-[#9086a3]">
-        <span className="hover:text-[#e8e4f0] cursor-pointer">File</span>
-        <span className="hover:text-[#e8e4f0] cursor-pointer">Edit</span>
-        <span className="hover:text-[#e8e4f0] cursor-pointer">View</span>
-        <span className="hover:text-[#e8e4f0] cursor-pointer">Help</span>
-      </div>
+      <MenuBar menus={[
+        {
+          label: 'File',
+          items: [
+            ...(onCreateFolder ? [{ label: 'New Folder', onSelect: () => create(onCreateFolder) }] : []),
+            ...(onCreateFile ? [{ label: 'New File', onSelect: () => create(onCreateFile) }] : []),
+            ...(onCreateFolder || onCreateFile ? [{ type: 'separator' } as const] : []),
+            {
+              label: 'Open',
+              shortcut: 'Enter',
+              disabled: !selectedItem?.onOpen,
+              onSelect: () => selectedItem?.onOpen?.(),
+            },
+          ],
+        },
+        {
+          label: 'Edit',
+          items: [
+            ...(onRename ? [{
+              label: 'Rename',
+              shortcut: 'F2',
+              disabled: !selectedItem,
+              onSelect: () => selectedItem && startRename(selectedItem),
+            }] : []),
+            ...(onDelete ? [{
+              label: 'Delete',
+              shortcut: 'Delete',
+              disabled: !selectedItem,
+              destructive: true,
+              onSelect: () => selectedItem && confirmDelete(selectedItem),
+            }] : []),
+            ...(onRename || onDelete ? [{ type: 'separator' } as const] : []),
+            { label: 'Deselect', disabled: !selectedItem, onSelect: () => setSelectedId(null) },
+          ],
+        },
+        {
+          label: 'View',
+          items: [
+            { type: 'checkbox', label: 'View as List', checked: viewAsList, onCheckedChange: setViewAsList },
+          ],
+        },
+        {
+          label: 'Help',
+          items: [
+            { label: 'Keyboard Shortcuts', shortcut: 'Ctrl+Alt+/', onSelect: () => setShowShortcutHelp(true) },
+          ],
+        },
+      ]} />
 
       {/* Path bar */}
       <div className="px-3 py-1.5 border-b border-[#362552] bg-[#2a2438]/30 text-xs text-[#9086a3] flex items-center gap-1">
-        <Folder className="w-3.5 h-3.5" />
-        <span>/home/sentry/{folderName}</span>
+        <Folder className="w-3.5 h-3.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0 flex items-center overflow-hidden">
+          {getBreadcrumbs(path).map((crumb, index) => (
+            <span key={crumb.path} className="flex items-center">
+              {index > 0 && <ChevronRight className="w-3 h-3" />}
+              {onNavigate ? (
+                <button
+                  onClick={() => onNavigate(crumb.path)}
+                  className={`px-1 rounded hover:bg-[#362552] hover:text-[#e8e4f0] ${
+                    dropTarget === crumb.path ? 'bg-[#7553ff]/30' : ''
+                  } ${crumb.path === path ? 'text-[#e8e4f0]' : ''}`}
+                  {...dropHandlers(crumb.path)}
+                >
+                  {crumb.name}
+                </button>
+              ) : (
+                <span className="px-1">{crumb.name}</span>
+              )}
+            </span>
+          ))}
+        </div>
+
+        {/* File operations */}
+        <div className="flex items-center gap-0.5">
+          {onCreateFolder && (
+            <button onClick={() => create(onCreateFolder)} className={toolbarButtonClass} title="New folder">
+              <FolderPlus className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onCreateFile && (
+            <button onClick={() => create(onCreateFile)} className={toolbarButtonClass} title="New file">
+              <FilePlus className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onRename && (
+            <button
+              onClick={() => selectedItem && startRename(selectedItem)}
+              disabled={!selectedItem}
+              className={toolbarButtonClass}
+              title="Rename (F2)"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={() => selectedItem && confirmDelete(selectedItem)}
+              disabled={!selectedItem}
+              className={toolbarButtonClass}
+              title="Delete (Del)"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Content area - grid of items */}
-      <div className="flex-1 overflow-auto p-4">
-        <div className="grid grid-cols-3 gap-3">
+      <div
+        className={`flex-1 overflow-auto p-4 focus:outline-none ${
+          dropTarget === path ? 'bg-[#7553ff]/10 ring-1 ring-inset ring-[#7553ff]/50' : ''
+        }`}
+        tabIndex={0}
+        {...dropHandlers(path)}
+        onKeyDown={handleKeyDown}
+        onClick={() => setSelectedId(null)}
+      >
+        <div className={viewAsList ? 'flex flex-col gap-0.5' : 'grid grid-cols-3 gap-3'}>
           {items.map((item) => {
-            const IconComponent = iconComponents[item.icon || 'folder']
+            const IconComponent = item.icon ?? Folder
             const isSelected = selectedId === item.id
+            const isDropTarget = item.type === 'folder' && item.path !== undefined && dropTarget === item.path
 
             return (
               <div
                 key={item.id}
-                onClick={(e) => handleItemClick(e, item)}
-                className={`flex flex-col items-center gap-1.5 p-3 rounded cursor-default select-none transition-colors ${
-                  isSelected
+                onClick={(e) => editingId !== item.id && handleItemClick(e, item)}
+                draggable={Boolean(onMove && item.path) && editingId !== item.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(ITEM_DRAG_TYPE, item.id)
+                  e.dataTransfer.effectAllowed = 'move'
+                }}
+                {...(item.type === 'folder' && item.path ? dropHandlers(item.path) : {})}
+                className={`flex items-center rounded cursor-default select-none transition-colors ${
+                  viewAsList ? 'gap-2 px-2 py-1' : 'flex-col gap-1.5 p-3'
+                } ${
+                  isSelected || isDropTarget
                     ? 'bg-[#7553ff]/20 ring-1 ring-[#7553ff]/50'
                     : 'hover:bg-white/5'
                 }`}
               >
-                <div className={`p-3 rounded transition-colors ${
-                  isSelected ? 'bg-[#7553ff]/30' : 'bg-[#2a2438]/50'
-                }`}>
-                  <IconComponent className="w-10 h-10 text-[#7553ff]" />
-                </div>
-                <span className="text-xs text-center text-[#e8e4f0]/80 break-words w-full leading-tight">
-                  {item.name}
-                </span>
+                {viewAsList ? (
+                  <IconComponent className="w-4 h-4 flex-shrink-0 text-[#7553ff]" />
+                ) : (
+                  <div className={`p-3 rounded transition-colors ${
+                    isSelected ? 'bg-[#7553ff]/30' : 'bg-[#2a2438]/50'
+                  }`}>
+                    <IconComponent className="w-10 h-10 text-[#7553ff]" />
+                  </div>
+                )}
+                {editingId === item.id ? (
+                  <div className="flex items-center gap-0.5 w-full" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onFocus={(e) => {
+                        // Select the name without its extension, like most file managers
+                        const dot = e.target.value.lastIndexOf('.')
+                        e.target.setSelectionRange(0, dot > 0 ? dot : e.target.value.length)
+                      }}
+                      onKeyDown={(e) => {
+                        e.stopPropagation()
+                        if (e.key === 'Enter') commitRename(item)
+                        if (e.key === 'Escape') setEditingId(null)
+                      }}
+                      className="flex-1 min-w-0 bg-[#1e1a2a] text-xs text-[#e8e4f0] px-1 py-0.5 rounded border border-[#7553ff] focus:outline-none"
+                    />
+                    <button onClick={() => commitRename(item)} className="p-0.5 rounded hover:bg-[#362552]" title="Save">
+                      <Check className="w-3 h-3 text-[#9086a3]" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-0.5 rounded hover:bg-[#362552]" title="Cancel">
+                      <X className="w-3 h-3 text-[#9086a3]" />
+                    </button>
+                  </div>
+                ) : (
+                  <span className={`text-xs text-[#e8e4f0]/80 w-full leading-tight ${
+                    viewAsList ? 'truncate' : 'text-center break-words'
+                  }`}>
+                    {item.name}
+                  </span>
+                )}
               </div>
             )
           })}
@@ -112,7 +364,11 @@ export function FolderView({ items, folderName }: FolderViewProps) {
 
       {/* Status bar */}
       <div className="flex items-center justify-between px-3 py-1 border-t border-[#362552] bg-[#2a2438] text-xs text-[#9086a3]">
-        <span>{items.length} item{items.length !== 1 ? 's' : ''}</span>
+        {error ? (
+          <span className="truncate text-[#ff4757]">{error}</span>
+        ) : (
+          <span>{items.length} item{items.length !== 1 ? 's' : ''}</span>
+        )}
         <span>SentryOS File Manager</span>
       </div>
     </div>
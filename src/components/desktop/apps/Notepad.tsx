@@ -1,38 +1,329 @@
 'use client'
 
+import { useEffect, useRef, useState } from 'react'
 import ReactMarkdown from 'react-markdown'
+import { Columns2, Eye, Pencil, Redo2, Save, Undo2, type LucideIcon } from 'lucide-react'
+import { getFileSystem } from '@/lib/vfs/file-system'
+import { HOME_PATH, basename, joinPath, normalizePath, parentPath } from '@/lib/vfs/paths'
+import { useAppWindow, useCloseGuard, useShortcut, useWindowManager } from '../WindowManager'
+import { MenuBar } from '../MenuBar'
+
+type ViewMode = 'edit' | 'split' | 'preview'
+
+const VIEW_MODES: { mode: ViewMode, label: string, icon: LucideIcon }[] = [
+  { mode: 'edit', label: 'Edit', icon: Pencil },
+  { mode: 'split', label: 'Split', icon: Columns2 },
+  { mode: 'preview', label: 'Preview', icon: Eye },
+]
+
+// Keystrokes closer together than this are undone as one step
+const UNDO_GROUP_MS = 1000
+const MAX_UNDO_STEPS = 200
+
+// Path bar shown for File > Open and File > Save As
+interface PathPrompt {
+  action: 'open' | 'save-as'
+  value: string
+}
+
+interface EditHistory {
+  past: string[]
+  future: string[]
+  lastEditAt: number
+}
+
+const EMPTY_HISTORY: EditHistory = { past: [], future: [], lastEditAt: 0 }
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+const toolbarButtonClass = 'p-1 rounded hover:bg-[#362552] disabled:opacity-40 disabled:hover:bg-transparent'
 
 interface NotepadProps {
-  content: string
-  filename: string
+  // File in the virtual file system to edit
+  path?: string
+  // Text to start from when there is no path, e.g. content that was never saved
+  content?: string
+  filename?: string
 }
 
-export function Notepad({ content, filename }: NotepadProps) {
+export function Notepad({ path: initialPath, content: initialContent = '', filename = 'Untitled' }: NotepadProps) {
+  const { openWindow, setShowShortcutHelp } = useWindowManager()
+  const { updateProps, setTitle } = useAppWindow()
+  const [path, setPath] = useState(initialPath)
+  const [content, setContent] = useState(initialContent)
+  // Content as last loaded or saved; anything else is unsaved
+  const [savedContent, setSavedContent] = useState(initialContent)
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY)
+  const [viewMode, setViewMode] = useState<ViewMode>(initialPath ? 'preview' : 'split')
+  const [wordWrap, setWordWrap] = useState(true)
+  const [pathPrompt, setPathPrompt] = useState<PathPrompt | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const name = path ? basename(path) : filename
+  const isDirty = content !== savedContent
+  const isDirtyRef = useRef(isDirty)
+  const editorRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    isDirtyRef.current = isDirty
+  })
+
+  // Reload on every file system change so renames and edits elsewhere show
+  // up, unless that would throw away unsaved changes
+  useEffect(() => {
+    if (!path) return
+    const load = () => {
+      getFileSystem().readFile(path)
+        .then(text => {
+          if (isDirtyRef.current) return
+          setContent(text)
+          setSavedContent(text)
+          setError(null)
+        })
+        .catch(error => {
+          if (!isDirtyRef.current) setError(errorMessage(error))
+        })
+    }
+    load()
+    return getFileSystem().subscribe(load)
+  }, [path])
+
+  useEffect(() => {
+    setTitle(isDirty ? `• ${name}` : name)
+  }, [name, isDirty, setTitle])
+
+  useCloseGuard(() => !isDirty || window.confirm(`${name} has unsaved changes. Close it anyway?`))
+
+  const edit = (text: string) => {
+    const now = Date.now()
+    setHistory(prev => ({
+      // Start a new undo step after a pause in typing
+      past: now - prev.lastEditAt > UNDO_GROUP_MS ? [...prev.past, content].slice(-MAX_UNDO_STEPS) : prev.past,
+      future: [],
+      lastEditAt: now,
+    }))
+    setContent(text)
+  }
+
+  const undo = () => {
+    if (history.past.length === 0) return
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [content, ...history.future],
+      lastEditAt: 0,
+    })
+    setContent(history.past[history.past.length - 1])
+  }
+
+  const redo = () => {
+    if (history.future.length === 0) return
+    setHistory({
+      past: [...history.past, content],
+      future: history.future.slice(1),
+      lastEditAt: 0,
+    })
+    setContent(history.future[0])
+  }
+
+  const writeTo = async (targetPath: string) => {
+    setError(null)
+    try {
+      await getFileSystem().writeFile(targetPath, content)
+      setSavedContent(content)
+      return true
+    } catch (error) {
+      setError(errorMessage(error))
+      return false
+    }
+  }
+
+  const save = async () => {
+    if (!path) {
+      startSaveAs()
+      return
+    }
+    await writeTo(path)
+  }
+
+  const startSaveAs = () => {
+    setPathPrompt({
+      action: 'save-as',
+      value: path ?? joinPath(HOME_PATH, 'Documents', filename.includes('.') ? filename : `${filename}.md`),
+    })
+  }
+
+  const startOpen = () => {
+    setPathPrompt({ action: 'open', value: `${path ? parentPath(path) : joinPath(HOME_PATH, 'Documents')}/` })
+  }
+
+  const saveAs = async (value: string) => {
+    const targetPath = normalizePath(value)
+    const exists = targetPath !== path && await getFileSystem().stat(targetPath)
+    if (exists && !window.confirm(`${basename(targetPath)} already exists. Replace it?`)) return
+    if (!await writeTo(targetPath)) return
+
+    setPath(targetPath)
+    setPathPrompt(null)
+    // The window now shows the saved file, also after a reload
+    updateProps({ path: targetPath, content: undefined, filename: undefined })
+  }
+
+  // Opens the file in its own Notepad window, or focuses the one showing it
+  const open = async (value: string) => {
+    const targetPath = normalizePath(value)
+    const entry = await getFileSystem().stat(targetPath)
+    if (entry?.type !== 'file') {
+      setError(`No such file: ${targetPath}`)
+      return
+    }
+    setError(null)
+    setPathPrompt(null)
+    openWindow('notepad', { path: targetPath })
+  }
+
+  const commitPathPrompt = () => {
+    if (!pathPrompt?.value.trim()) return
+    if (pathPrompt.action === 'open') {
+      open(pathPrompt.value.trim())
+    } else {
+      saveAs(pathPrompt.value.trim())
+    }
+  }
+
+  useShortcut('Ctrl+O', 'Open', startOpen)
+  useShortcut('Ctrl+S', 'Save', save)
+  useShortcut('Ctrl+Shift+S', 'Save as', startSaveAs)
+  // The document's history only applies in the editor; other fields, like
+  // the save-as path, keep their own undo
+  const inEditor = (action: () => void) => () => {
+    if (document.activeElement !== editorRef.current) return false
+    action()
+  }
+  useShortcut('Ctrl+Z', 'Undo', inEditor(undo))
+  useShortcut('Ctrl+Y', 'Redo', inEditor(redo))
+  useShortcut('Ctrl+Shift+Z', 'Redo', inEditor(redo))
+
+  const showEditor = viewMode !== 'preview'
+  const showPreview = viewMode !== 'edit'
+
   return (
     <div className="h-full flex flex-col bg-[#1e1a2a]">
-      {/* Menu bar */}
-      <div className="flex items-center gap-4 px-2 py-1 border-b border-[#362552] bg-[#2a2438] text-xs text-[#9086a3]">
-        <span className="hover:text-[#e8e4f0] cursor-pointer">File</span>
-        <span className="hover:text-[#e8e4f0] cursor-pointer">Edit</span>
-        <span className="hover:text-[#e8e4f0] cursor-pointer">View</span>
-        <span className="hover:text-[#e8e4f0] cursor-pointer">Help</span>
-      </div>
+      <MenuBar menus={[
+        {
+          label: 'File',
+          items: [
+            { label: 'Open...', shortcut: 'Ctrl+O', onSelect: startOpen },
+            { type: 'separator' },
+            { label: 'Save', shortcut: 'Ctrl+S', onSelect: save },
+            { label: 'Save As...', shortcut: 'Ctrl+Shift+S', onSelect: startSaveAs },
+          ],
+        },
+        {
+          label: 'Edit',
+          items: [
+            { label: 'Undo', shortcut: 'Ctrl+Z', disabled: history.past.length === 0, onSelect: undo },
+            { label: 'Redo', shortcut: 'Ctrl+Y', disabled: history.future.length === 0, onSelect: redo },
+          ],
+        },
+        {
+          label: 'View',
+          items: [
+            ...VIEW_MODES.map(({ mode, label }) => ({
+              type: 'checkbox' as const,
+              label,
+              checked: viewMode === mode,
+              onCheckedChange: () => setViewMode(mode),
+            })),
+            { type: 'separator' },
+            { type: 'checkbox', label: 'Word Wrap', checked: wordWrap, onCheckedChange: setWordWrap },
+          ],
+        },
+        {
+          label: 'Help',
+          items: [
+            { label: 'Keyboard Shortcuts', shortcut: 'Ctrl+Alt+/', onSelect: () => setShowShortcutHelp(true) },
+          ],
+        },
+      ]} />
 
-      {/* Status showing filename */}
-      <div className="px-3 py-1.5 border-b border-[#362552] bg-[#2a2438]/30 text-xs text-[#9086a3]">
-        {filename}
+      {/* Toolbar with the file path */}
+      <div className="flex items-center gap-1 px-3 py-1 border-b border-[#362552] bg-[#2a2438]/30 text-xs text-[#9086a3]">
+        <button onClick={save} className={toolbarButtonClass} title="Save (Ctrl+S)">
+          <Save className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={undo} disabled={history.past.length === 0} className={toolbarButtonClass} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={redo} disabled={history.future.length === 0} className={toolbarButtonClass} title="Redo (Ctrl+Y)">
+          <Redo2 className="w-3.5 h-3.5" />
+        </button>
+        <span className="flex-1 min-w-0 truncate px-2" title={path}>
+          {path ?? filename}{isDirty && ' (unsaved)'}
+        </span>
+        {VIEW_MODES.map(({ mode, label, icon: Icon }) => (
+          <button
+            key={mode}
+            onClick={() => setViewMode(mode)}
+            className={`${toolbarButtonClass} ${viewMode === mode ? 'bg-[#362552] text-[#e8e4f0]' : ''}`}
+            title={label}
+          >
+            <Icon className="w-3.5 h-3.5" />
+          </button>
+        ))}
       </div>
 
-      {/* Content area */}
-      <div className="flex-1 overflow-auto p-4">
-        <div className="markdown-content text-sm leading-relaxed">
-          <ReactMarkdown>{content}</ReactMarkdown>
+      {/* Open and save-as path bar */}
+      {pathPrompt && (
+        <div className="flex items-center gap-2 px-3 py-1.5 border-b border-[#362552] bg-[#2a2438] text-xs">
+          <span className="text-[#9086a3]">{pathPrompt.action === 'open' ? 'Open' : 'Save as'}</span>
+          <input
+            autoFocus
+            value={pathPrompt.value}
+            onChange={(e) => setPathPrompt({ ...pathPrompt, value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitPathPrompt()
+              if (e.key === 'Escape') setPathPrompt(null)
+            }}
+            className="flex-1 min-w-0 bg-[#1e1a2a] text-[#e8e4f0] px-1.5 py-0.5 rounded border border-[#7553ff] focus:outline-none"
+          />
+          <button onClick={commitPathPrompt} className="px-2 py-0.5 rounded text-white bg-[#7553ff] hover:bg-[#8c6fff]">
+            {pathPrompt.action === 'open' ? 'Open' : 'Save'}
+          </button>
+          <button onClick={() => setPathPrompt(null)} className="px-2 py-0.5 rounded text-[#9086a3] hover:bg-[#362552]">
+            Cancel
+          </button>
         </div>
+      )}
+
+      {/* Content area */}
+      <div className="flex-1 min-h-0 flex">
+        {showEditor && (
+          <textarea
+            ref={editorRef}
+            value={content}
+            onChange={(e) => edit(e.target.value)}
+            spellCheck={false}
+            wrap={wordWrap ? 'soft' : 'off'}
+            className={`flex-1 min-w-0 resize-none p-4 bg-[#1e1a2a] text-sm font-mono leading-relaxed text-[#e8e4f0] focus:outline-none ${
+              showPreview ? 'border-r border-[#362552]' : ''
+            }`}
+          />
+        )}
+        {showPreview && (
+          <div className="flex-1 min-w-0 overflow-auto p-4">
+            <div className="markdown-content text-sm leading-relaxed">
+              <ReactMarkdown>{content}</ReactMarkdown>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Status bar */}
       <div className="flex items-center justify-between px-3 py-1 border-t border-[#362552] bg-[#2a2438] text-xs text-[#9086a3]">
-        <span>Markdown Preview</span>
+        {error ? (
+          <span className="truncate text-[#ff4757]">{error}</span>
+        ) : (
+          <span>{viewMode === 'preview' ? 'Markdown Preview' : `${content.split('\n').length} lines`}</span>
+        )}
         <span>UTF-8</span>
       </div>
     </div>
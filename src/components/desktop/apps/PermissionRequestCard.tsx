@@ -0,0 +1,62 @@
+'use client'
+
+import { useState } from 'react'
+import { ShieldAlert, Check, X } from 'lucide-react'
+
+export interface PermissionRequest {
+  requestId: string
+  tool: string
+  input: Record<string, unknown>
+}
+
+interface PermissionRequestCardProps {
+  request: PermissionRequest
+  toolLabel: string
+  onAnswer: (approved: boolean) => Promise<void>
+}
+
+export function PermissionRequestCard({ request, toolLabel, onAnswer }: PermissionRequestCardProps) {
+  const [isAnswering, setIsAnswering] = useState(false)
+
+  // Shown in full, scrolling if long: the user approves exactly what runs
+  const input = JSON.stringify(request.input, null, 2)
+
+  const answer = async (approved: boolean) => {
+    setIsAnswering(true)
+    try {
+      await onAnswer(approved)
+    } finally {
+      setIsAnswering(false)
+    }
+  }
+
+  return (
+    <div className="border border-[#f5a623]/50 bg-[#f5a623]/10 rounded-lg px-3 py-2 space-y-2">
+      <div className="flex items-center gap-2 text-xs text-[#f5a623]">
+        <ShieldAlert className="w-4 h-4" />
+        <span className="font-medium">{toolLabel} needs your approval</span>
+      </div>
+      <pre className="max-h-40 overflow-auto bg-[#1e1a2a] rounded px-2 py-1.5 text-[10px] text-[#e8e4f0] whitespace-pre-wrap break-all">
+        {input}
+      </pre>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => answer(false)}
+          disabled={isAnswering}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-[#e8e4f0] bg-[#362552] hover:bg-[#4a3570] disabled:opacity-50 rounded transition-colors"
+        >
+          <X className="w-3 h-3" />
+          Deny
+        </button>
+        <button
+          onClick={() => answer(true)}
+          disabled={isAnswering}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-white bg-[#7553ff] hover:bg-[#8c6fff] disabled:opacity-50 rounded transition-colors"
+        >
+          <Check className="w-3 h-3" />
+          Approve
+        </button>
+      </div>
+    </div>
+  )
+}
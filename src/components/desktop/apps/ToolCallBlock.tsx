@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import { Wrench, Search, Globe, FileText, Terminal, ChevronRight, Loader2, Check, X, Ban } from 'lucide-react'
+import { ToolActivity } from '@/lib/chat/conversations'
+
+type ToolIconType = 'search' | 'globe' | 'file' | 'terminal' | 'wrench'
+
+// Map tool names to friendly display names and icons
+export const toolDisplayInfo: Record<string, { name: string; icon: ToolIconType }> = {
+  'WebSearch': { name: 'Web Search', icon: 'search' },
+  'WebFetch': { name: 'Fetching URL', icon: 'globe' },
+  'Read': { name: 'Reading File', icon: 'file' },
+  'Write': { name: 'Writing File', icon: 'file' },
+  'Edit': { name: 'Editing File', icon: 'file' },
+  'Glob': { name: 'Finding Files', icon: 'file' },
+  'Grep': { name: 'Searching Content', icon: 'search' },
+  'Bash': { name: 'Running Command', icon: 'terminal' },
+  'Task': { name: 'Running Task', icon: 'wrench' },
+}
+
+export const ToolIcon = ({ type }: { type: ToolIconType }) => {
+  const iconClass = "w-3 h-3"
+  switch (type) {
+    case 'search': return <Search className={iconClass} />
+    case 'globe': return <Globe className={iconClass} />
+    case 'file': return <FileText className={iconClass} />
+    case 'terminal': return <Terminal className={iconClass} />
+    default: return <Wrench className={iconClass} />
+  }
+}
+
+// The input field that best describes what a call did, shown in the collapsed header
+const SUMMARY_FIELDS = ['command', 'query', 'url', 'file_path', 'pattern', 'description']
+
+const summarizeInput = (input: Record<string, unknown> | undefined) => {
+  for (const field of SUMMARY_FIELDS) {
+    const value = input?.[field]
+    if (typeof value === 'string' && value) return value
+  }
+  return null
+}
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+
+const StatusIcon = ({ status }: { status: ToolActivity['status'] }) => {
+  switch (status) {
+    case 'running': return <Loader2 className="w-3 h-3 text-[#7553ff] animate-spin" />
+    case 'success': return <Check className="w-3 h-3 text-[#2ecc71]" />
+    case 'error': return <X className="w-3 h-3 text-[#ff4757]" />
+    case 'denied': return <Ban className="w-3 h-3 text-[#ff4757]" />
+  }
+}
+
+export function ToolCallBlock({ tool }: { tool: ToolActivity }) {
+  const [expanded, setExpanded] = useState(false)
+  const display = toolDisplayInfo[tool.name]
+  const summary = summarizeInput(tool.input)
+
+  return (
+    <div className={`my-1.5 rounded border text-xs ${
+      tool.status === 'denied' || tool.status === 'error'
+        ? 'border-[#ff4757]/40 bg-[#ff4757]/5'
+        : 'border-[#362552] bg-[#1e1a2a]'
+    }`}>
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full flex items-center gap-1.5 px-2 py-1 text-left text-[#9086a3] hover:text-[#e8e4f0] transition-colors"
+      >
+        <ChevronRight className={`w-3 h-3 flex-shrink-0 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        <span className="flex items-center gap-1 text-[#7553ff] flex-shrink-0">
+          <ToolIcon type={display?.icon || 'wrench'} />
+          {display?.name || tool.name}
+        </span>
+        {summary && <span className="truncate">{summary}</span>}
+        <span className="ml-auto flex items-center gap-1 flex-shrink-0">
+          {tool.durationMs !== undefined && (
+            <span className="text-[10px]">{formatDuration(tool.durationMs)}</span>
+          )}
+          <StatusIcon status={tool.status} />
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-2 pb-2 space-y-1.5 border-t border-[#362552]">
+          {tool.deniedReason && (
+            <p className="pt-1.5 text-[#ff4757]">{tool.deniedReason}</p>
+          )}
+          {tool.input && (
+            <div>
+              <p className="pt-1.5 pb-0.5 text-[10px] uppercase tracking-wide text-[#9086a3]">Input</p>
+              <pre className="max-h-40 overflow-auto bg-[#15121d] rounded px-2 py-1 text-[10px] text-[#e8e4f0] whitespace-pre-wrap break-all">
+                {JSON.stringify(tool.input, null, 2)}
+              </pre>
+            </div>
+          )}
+          {tool.output !== undefined && (
+            <div>
+              <p className="pb-0.5 text-[10px] uppercase tracking-wide text-[#9086a3]">Result</p>
+              <pre className="max-h-48 overflow-auto bg-[#15121d] rounded px-2 py-1 text-[10px] text-[#e8e4f0] whitespace-pre-wrap break-all">
+                {tool.output || '(no output)'}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
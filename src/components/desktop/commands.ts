@@ -0,0 +1,39 @@
+// Commands are actions listed in the Ctrl+K command palette. Apps add their
+// own with useCommand; the palette adds window and launch commands itself.
+
+export interface Command {
+  id: string
+  title: string
+  // Shown next to the title, e.g. the app the command belongs to
+  group: string
+  // Window the command belongs to; it is only listed while that window is
+  // focused. null for desktop-wide commands.
+  windowId: string | null
+  run: () => void
+}
+
+// Scores how well the query matches the text as a subsequence, or returns
+// null when it doesn't. Consecutive letters and word starts score higher, so
+// "nc" ranks "New conversation" above "Open notepad".
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.trim().toLowerCase()
+  const haystack = text.toLowerCase()
+  if (!needle) return 0
+
+  let score = 0
+  let position = 0
+  let previousMatch = -2
+  for (const char of needle) {
+    if (char === ' ') continue
+    const index = haystack.indexOf(char, position)
+    if (index === -1) return null
+
+    score += 1
+    if (index === previousMatch + 1) score += 2
+    if (index === 0 || /[\s\-_/:.]/.test(haystack[index - 1])) score += 3
+    previousMatch = index
+    position = index + 1
+  }
+  // Prefer shorter texts among equally good matches
+  return score - haystack.length / 100
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useCallback } from 'react'
+import { File, FileImage, FileText, Folder, type LucideIcon } from 'lucide-react'
+import { FileSystemEntry, getFileSystem } from '@/lib/vfs/file-system'
+import { getPreviewKind, isActiveContent, isImageFile, isTextFile } from '@/lib/vfs/file-types'
+import { useWindowManager } from './WindowManager'
+
+export function getEntryIcon(entry: FileSystemEntry): LucideIcon {
+  if (entry.type === 'folder') return Folder
+  if (isTextFile(entry.mimeType)) return FileText
+  if (isImageFile(entry.mimeType)) return FileImage
+  return File
+}
+
+// Opens folders in Files, text files in Notepad and images and PDFs in the
+// viewer. Other files open in a browser tab.
+export function useOpenEntry() {
+  const { openWindow } = useWindowManager()
+
+  return useCallback((entry: FileSystemEntry) => {
+    if (entry.type === 'folder') {
+      openWindow('files', { path: entry.path })
+    } else if (isTextFile(entry.mimeType)) {
+      openWindow('notepad', { path: entry.path })
+    } else if (getPreviewKind(entry.mimeType)) {
+      openWindow('viewer', { path: entry.path, mimeType: entry.mimeType })
+    } else {
+      getFileSystem().readBlob(entry.path)
+        .then(blob => {
+          // Shown as text rather than run with the desktop's origin
+          const url = URL.createObjectURL(isActiveContent(blob.type) ? new Blob([blob], { type: 'text/plain' }) : blob)
+          window.open(url, '_blank', 'noopener')
+          // The new tab has loaded the blob long before this
+          setTimeout(() => URL.revokeObjectURL(url), 60_000)
+        })
+        .catch(error => console.error('Failed to open file:', error))
+    }
+  }, [openWindow])
+}
@@ -2,5 +2,5 @@ export { Desktop } from './Desktop'
 export { Window } from './Window'
 export { Taskbar } from './Taskbar'
 export { DesktopIcon } from './DesktopIcon'
-export { WindowManagerProvider, useWindowManager } from './WindowManager'
-export type { WindowState, DesktopIconType } from './types'
+export { WindowManagerProvider, useWindowManager, useAppWindow, useShortcut, useCommand, useCloseGuard } from './WindowManager'
+export type { WindowState, DesktopIconType, AppProps } from './types'
@@ -0,0 +1,51 @@
+import { AppProps } from './types'
+import { isKnownApp } from './app-registry'
+
+// Files opened on the desktop, newest first, for the start menu. Kept in
+// localStorage next to the open windows (see window-persistence.ts).
+const STORAGE_KEY = 'sentryos-recent-files'
+const MAX_RECENT_FILES = 8
+
+export interface RecentFile {
+  // Virtual file system path
+  path: string
+  appId: string
+  // Launch args that reopen the file
+  args: AppProps
+  openedAt: string
+}
+
+const isRecentFile = (value: unknown): value is RecentFile => {
+  const file = value as RecentFile
+  return typeof file?.path === 'string' &&
+    typeof file.appId === 'string' &&
+    typeof file.args === 'object' && file.args !== null &&
+    typeof file.openedAt === 'string'
+}
+
+export function loadRecentFiles(): RecentFile[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+
+    const files: unknown = JSON.parse(stored)
+    if (!Array.isArray(files)) return []
+    return files.filter((file): file is RecentFile => isRecentFile(file) && isKnownApp(file.appId))
+  } catch (error) {
+    console.error('Failed to load recent files:', error)
+    return []
+  }
+}
+
+// Moves the file to the top of the list, replacing an earlier entry for the same file
+export function addRecentFile(path: string, appId: string, args: AppProps) {
+  try {
+    const files = [
+      { path, appId, args, openedAt: new Date().toISOString() },
+      ...loadRecentFiles().filter(file => file.path !== path || file.appId !== appId),
+    ].slice(0, MAX_RECENT_FILES)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(files))
+  } catch (error) {
+    console.error('Failed to save recent files:', error)
+  }
+}
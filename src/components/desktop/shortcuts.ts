@@ -0,0 +1,86 @@
+// Keyboard shortcuts are written like "Ctrl+Alt+T". Keys are matched on the
+// character they produce, so Ctrl+Z is where the layout puts Z. With Alt,
+// printable keys are matched on the physical key (KeyboardEvent.code)
+// instead, because Alt changes the character a key produces on some layouts,
+// e.g. Alt+T types "†" on a Mac.
+
+export interface ShortcutBinding {
+  keys: string
+  description: string
+  // Window the shortcut belongs to; it only fires while that window is
+  // focused. null for desktop-wide shortcuts.
+  windowId: string | null
+  // Returning false leaves the keystroke to the focused element
+  run: () => unknown
+}
+
+const CODE_BY_KEY: Record<string, string> = {
+  '`': 'Backquote',
+  '/': 'Slash',
+  '.': 'Period',
+  ',': 'Comma',
+  '[': 'BracketLeft',
+  ']': 'BracketRight',
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+}
+
+interface ParsedShortcut {
+  ctrl: boolean
+  alt: boolean
+  shift: boolean
+  meta: boolean
+  key: string
+}
+
+function parseShortcut(keys: string): ParsedShortcut {
+  const parts = keys.split('+')
+  // The key itself may be "+", which leaves an empty last part
+  const key = parts.pop() || '+'
+  const modifiers = new Set(parts.map(part => part.toLowerCase()))
+  return {
+    ctrl: modifiers.has('ctrl'),
+    alt: modifiers.has('alt'),
+    shift: modifiers.has('shift'),
+    meta: modifiers.has('meta'),
+    key,
+  }
+}
+
+function keyToCode(key: string) {
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`
+  if (/^[0-9]$/.test(key)) return `Digit${key}`
+  return CODE_BY_KEY[key] ?? null
+}
+
+export function matchesShortcut(e: KeyboardEvent, keys: string) {
+  const shortcut = parseShortcut(keys)
+  if (e.ctrlKey !== shortcut.ctrl || e.altKey !== shortcut.alt ||
+      e.shiftKey !== shortcut.shift || e.metaKey !== shortcut.meta) {
+    return false
+  }
+
+  const code = shortcut.alt ? keyToCode(shortcut.key) : null
+  if (code) return e.code === code
+  // Shift turns letters upper case
+  return shortcut.key.length === 1
+    ? e.key.toLowerCase() === shortcut.key.toLowerCase()
+    : e.key === shortcut.key
+}
+
+export function formatShortcut(keys: string) {
+  const { key, ...modifiers } = parseShortcut(keys)
+  const labels = [
+    modifiers.ctrl && 'Ctrl',
+    modifiers.alt && 'Alt',
+    modifiers.shift && 'Shift',
+    modifiers.meta && 'Meta',
+    KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key),
+  ]
+  return labels.filter(Boolean).join('+')
+}
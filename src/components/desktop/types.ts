@@ -1,7 +1,16 @@
 'use client'
 
+import { SnapZone } from './window-layout'
+
+// Props an app is launched with. They are persisted with the window, so they
+// must survive JSON serialization.
+export type AppProps = Record<string, unknown>
+
 export interface WindowState {
   id: string
+  // Which app renders the window's content (see app-registry.tsx)
+  appId: string
+  props: AppProps
   title: string
   icon: string
   x: number
@@ -12,9 +21,11 @@ export interface WindowState {
   minHeight: number
   isMinimized: boolean
   isMaximized: boolean
+  // Half or quarter of the desktop the window is snapped to; x/y/width/height
+  // keep the pre-snap geometry for when it is un-snapped
+  snap: SnapZone | null
   isFocused: boolean
   zIndex: number
-  content: React.ReactNode
 }
 
 export interface DesktopIconType {
@@ -0,0 +1,140 @@
+import { useSyncExternalStore } from 'react'
+
+// Geometry for snapped, tiled and cascaded windows. Snapped windows keep
+// their own x/y/width/height untouched, the way maximized windows do, so
+// un-snapping puts them back exactly where they were.
+
+export type SnapZone = 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+// How a window is laid out besides its own geometry
+export type WindowLayout = SnapZone | 'maximize' | null
+
+export type SnapDirection = 'left' | 'right' | 'up' | 'down'
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface DesktopBounds {
+  width: number
+  height: number
+}
+
+export const TASKBAR_HEIGHT = 48
+
+// How close to a screen edge the pointer must be for a drag to snap
+const SNAP_EDGE_THRESHOLD = 8
+
+const CASCADE_ORIGIN = 40
+const CASCADE_STEP = 30
+
+export function getDesktopBounds(): DesktopBounds {
+  return { width: window.innerWidth, height: window.innerHeight - TASKBAR_HEIGHT }
+}
+
+const subscribeToResize = (onChange: () => void) => {
+  window.addEventListener('resize', onChange)
+  return () => window.removeEventListener('resize', onChange)
+}
+
+const getBoundsSnapshot = () => `${window.innerWidth}x${window.innerHeight}`
+
+// Desktop bounds that re-render the caller when the browser window resizes
+export function useDesktopBounds(): DesktopBounds {
+  useSyncExternalStore(subscribeToResize, getBoundsSnapshot, getBoundsSnapshot)
+  return getDesktopBounds()
+}
+
+export function getSnapRect(zone: SnapZone, bounds: DesktopBounds): Rect {
+  const halfWidth = Math.floor(bounds.width / 2)
+  const halfHeight = Math.floor(bounds.height / 2)
+  const isRight = zone === 'right' || zone.endsWith('-right')
+  const isBottom = zone.startsWith('bottom-')
+  const isHalf = zone === 'left' || zone === 'right'
+
+  return {
+    x: isRight ? halfWidth : 0,
+    y: isBottom ? halfHeight : 0,
+    width: isRight ? bounds.width - halfWidth : halfWidth,
+    height: isHalf ? bounds.height : isBottom ? bounds.height - halfHeight : halfHeight,
+  }
+}
+
+// Where a window dragged to this pointer position should snap: corners give
+// quarters, the side edges halves and the top edge maximizes
+export function getDragSnapTarget(clientX: number, clientY: number, bounds: DesktopBounds): WindowLayout {
+  const atLeft = clientX <= SNAP_EDGE_THRESHOLD
+  const atRight = clientX >= bounds.width - SNAP_EDGE_THRESHOLD
+  const atTop = clientY <= SNAP_EDGE_THRESHOLD
+  const atBottom = clientY >= bounds.height - SNAP_EDGE_THRESHOLD
+
+  if (atLeft) return atTop ? 'top-left' : atBottom ? 'bottom-left' : 'left'
+  if (atRight) return atTop ? 'top-right' : atBottom ? 'bottom-right' : 'right'
+  if (atTop) return 'maximize'
+  return null
+}
+
+// Keyboard snapping moves between layouts the way arrow keys suggest, e.g.
+// left then up gives the top-left quarter. 'minimize' comes from pressing
+// down on a window that is not snapped.
+export function getKeyboardSnapTarget(current: WindowLayout, direction: SnapDirection): WindowLayout | 'minimize' {
+  switch (direction) {
+    case 'left':
+      if (current === 'right') return null
+      if (current === 'top-right') return 'top-left'
+      if (current === 'bottom-right') return 'bottom-left'
+      return current === 'top-left' || current === 'bottom-left' ? current : 'left'
+    case 'right':
+      if (current === 'left') return null
+      if (current === 'top-left') return 'top-right'
+      if (current === 'bottom-left') return 'bottom-right'
+      return current === 'top-right' || current === 'bottom-right' ? current : 'right'
+    case 'up':
+      if (current === 'left') return 'top-left'
+      if (current === 'right') return 'top-right'
+      if (current === 'bottom-left') return 'left'
+      if (current === 'bottom-right') return 'right'
+      return current ?? 'maximize'
+    case 'down':
+      if (current === 'maximize') return null
+      if (current === 'left') return 'bottom-left'
+      if (current === 'right') return 'bottom-right'
+      if (current === 'top-left') return 'left'
+      if (current === 'top-right') return 'right'
+      return current ?? 'minimize'
+  }
+}
+
+// A grid with as many columns as rows, or one more
+export function getTileLayout(count: number, bounds: DesktopBounds): Rect[] {
+  const columns = Math.ceil(Math.sqrt(count))
+  const rows = Math.ceil(count / columns)
+  const width = Math.floor(bounds.width / columns)
+  const height = Math.floor(bounds.height / rows)
+
+  return Array.from({ length: count }, (_, index) => ({
+    x: (index % columns) * width,
+    y: Math.floor(index / columns) * height,
+    width,
+    height,
+  }))
+}
+
+// Windows keep their size, clamped to the desktop, and step down and right
+export function getCascadeLayout(sizes: { width: number, height: number }[], bounds: DesktopBounds): Rect[] {
+  return sizes.map((size, index) => {
+    const width = Math.min(size.width, bounds.width - CASCADE_ORIGIN)
+    const height = Math.min(size.height, bounds.height - CASCADE_ORIGIN)
+    const maxSteps = Math.max(1, Math.floor(Math.min(bounds.width - width, bounds.height - height) / CASCADE_STEP))
+    const offset = CASCADE_ORIGIN + (index % maxSteps) * CASCADE_STEP
+    return {
+      x: Math.min(offset, bounds.width - width),
+      y: Math.min(offset, bounds.height - height),
+      width,
+      height,
+    }
+  })
+}
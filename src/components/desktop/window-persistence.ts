@@ -0,0 +1,48 @@
+import { WindowState } from './types'
+import { isKnownApp } from './app-registry'
+
+// Open windows are saved to localStorage on every change and restored when
+// the desktop loads. Bump the version when WindowState changes shape.
+const STORAGE_KEY = 'sentryos-windows'
+const STORAGE_VERSION = 1
+
+interface PersistedWindows {
+  version: number
+  windows: WindowState[]
+}
+
+const isWindowState = (value: unknown): value is WindowState => {
+  const win = value as WindowState
+  return typeof win?.id === 'string' &&
+    typeof win.appId === 'string' &&
+    typeof win.props === 'object' && win.props !== null &&
+    [win.x, win.y, win.width, win.height, win.zIndex].every(n => typeof n === 'number')
+}
+
+export function loadPersistedWindows(): WindowState[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+
+    const persisted = JSON.parse(stored) as PersistedWindows
+    if (persisted.version !== STORAGE_VERSION || !Array.isArray(persisted.windows)) return []
+
+    // Apps can be removed between releases; drop their windows instead of failing
+    return persisted.windows
+      .filter(win => isWindowState(win) && isKnownApp(win.appId))
+      // Windows saved before snapping existed have no snap zone
+      .map(win => ({ ...win, snap: win.snap ?? null }))
+  } catch (error) {
+    console.error('Failed to restore windows:', error)
+    return []
+  }
+}
+
+export function persistWindows(windows: WindowState[]) {
+  try {
+    const persisted: PersistedWindows = { version: STORAGE_VERSION, windows }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted))
+  } catch (error) {
+    console.error('Failed to save windows:', error)
+  }
+}
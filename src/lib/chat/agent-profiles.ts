@@ -0,0 +1,130 @@
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { AgentSummary, DEFAULT_AGENT_ICON } from './agents'
+import { CHAT_MODELS } from './settings'
+import { ToolPolicy } from './tool-policy'
+
+// Profiles live in CHAT_AGENTS_DIR as `<id>.md`:
+//
+//   ---
+//   name: Release Notes Writer
+//   description: Turns changelogs into release notes
+//   icon: 📝
+//   model: sonnet
+//   tools: Read, Glob, Grep
+//   ---
+//   You are ... (the rest of the file is the system prompt)
+//
+// They are read on every request so edits show up without a restart.
+export interface AgentProfile extends AgentSummary {
+  systemPrompt: string
+}
+
+const DEFAULT_AGENTS_DIR = './agents'
+
+// Agent ids become file names, so only allow plain identifiers
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/
+
+export function isValidAgentId(id: string) {
+  return AGENT_ID_PATTERN.test(id)
+}
+
+export function getAgentsDir() {
+  return path.resolve(process.env.CHAT_AGENTS_DIR ?? DEFAULT_AGENTS_DIR)
+}
+
+// Frontmatter is flat `key: value` lines; lists are comma-separated
+function parseFrontmatter(block: string) {
+  const fields: Record<string, string> = {}
+  for (const line of block.split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon === -1 || line.trimStart().startsWith('#')) continue
+    fields[line.slice(0, colon).trim()] = line.slice(colon + 1).trim().replace(/^(["'])(.*)\1$/, '$2')
+  }
+  return fields
+}
+
+export function parseAgentProfile(id: string, source: string): AgentProfile {
+  const match = FRONTMATTER_PATTERN.exec(source)
+  if (!match) {
+    throw new Error(`Agent profile ${id} is missing its frontmatter`)
+  }
+
+  const fields = parseFrontmatter(match[1])
+  const systemPrompt = match[2].trim()
+  if (!fields.name) {
+    throw new Error(`Agent profile ${id} has no name`)
+  }
+  if (!systemPrompt) {
+    throw new Error(`Agent profile ${id} has no system prompt`)
+  }
+  if (fields.model && !CHAT_MODELS.some(m => m.id === fields.model)) {
+    throw new Error(`Agent profile ${id} uses unsupported model ${fields.model}`)
+  }
+
+  const tools = fields.tools?.replace(/^\[|\]$/g, '').split(',').map(t => t.trim()).filter(Boolean)
+
+  return {
+    id,
+    name: fields.name,
+    description: fields.description ?? '',
+    icon: fields.icon || DEFAULT_AGENT_ICON,
+    model: fields.model || null,
+    tools: tools ?? null,
+    systemPrompt,
+  }
+}
+
+export async function getAgentProfile(id: string): Promise<AgentProfile | null> {
+  if (!isValidAgentId(id)) return null
+
+  let source: string
+  try {
+    source = await readFile(path.join(getAgentsDir(), `${id}.md`), 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+  return parseAgentProfile(id, source)
+}
+
+// Broken profiles are logged and left out rather than hiding every agent
+export async function listAgentProfiles(): Promise<AgentProfile[]> {
+  let files: string[]
+  try {
+    files = (await readdir(getAgentsDir())).filter(f => f.endsWith('.md'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const profiles = await Promise.all(
+    files
+      .map(f => path.basename(f, '.md'))
+      .filter(isValidAgentId)
+      .map(id => getAgentProfile(id).catch(error => {
+        console.warn(`Skipping agent profile ${id}:`, error)
+        return null
+      }))
+  )
+  return profiles
+    .filter((p): p is AgentProfile => p !== null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function toAgentSummary(profile: AgentProfile): AgentSummary {
+  const { id, name, description, icon, model, tools } = profile
+  return { id, name, description, icon, model, tools }
+}
+
+// An agent can only narrow the deployment's tool policy, never widen it
+export function restrictPolicyToAgent(policy: ToolPolicy, agent: AgentProfile): ToolPolicy {
+  const { allowedTools } = policy
+  if (!agent.tools) return policy
+  return {
+    ...policy,
+    allowedTools: allowedTools ? agent.tools.filter(tool => allowedTools.includes(tool)) : agent.tools,
+  }
+}
@@ -0,0 +1,18 @@
+// Agent profiles are markdown files with frontmatter that give a Chat window
+// its own name, persona and tools. This is the part of a profile the client
+// sees; the system prompt itself stays on the server (see agent-profiles.ts).
+
+export interface AgentSummary {
+  // File name without the .md extension
+  id: string
+  name: string
+  description: string
+  // Emoji shown on the agent's Chat window
+  icon: string
+  // Model the agent's conversations start with; null for the Chat default
+  model: string | null
+  // Tools the agent is limited to, within the deployment's tool policy; null for no extra limit
+  tools: string[] | null
+}
+
+export const DEFAULT_AGENT_ICON = '🤖'
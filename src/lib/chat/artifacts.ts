@@ -0,0 +1,17 @@
+// Files the agent created or changed in its session workspace, reported to
+// the Chat app as `artifact` events so they can be opened on the desktop
+
+export interface ChatArtifact {
+  // Relative to the session workspace
+  path: string
+  size: number
+  mimeType: string
+  change: 'created' | 'modified'
+  // Where the Chat app downloads the file while the session is alive
+  url: string
+}
+
+export function getWorkspaceFileUrl(sessionId: string, relativePath: string) {
+  const encodedPath = relativePath.split('/').map(encodeURIComponent).join('/')
+  return `/api/chat/sessions/${encodeURIComponent(sessionId)}/files/${encodedPath}`
+}
@@ -0,0 +1,29 @@
+// Files attached to a chat message. Images and PDFs are sent inline as
+// content parts; other files are uploaded into the session's workspace
+// before the message is sent, so the agent can read them with its file
+// tools. Shared by the Chat app and the API routes.
+
+export interface ChatAttachment {
+  name: string
+  // Relative to the session workspace, e.g. uploads/report.csv; unset for
+  // files sent inline
+  path?: string
+  size: number
+  mimeType: string
+  // Small preview of an image, as a data URL
+  thumbnail?: string
+}
+
+export type UploadedAttachment = ChatAttachment & { path: string }
+
+export interface UploadResponse {
+  // Session the files were uploaded to; new when the request had none
+  sessionId: string
+  attachments: UploadedAttachment[]
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
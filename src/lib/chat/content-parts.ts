@@ -0,0 +1,116 @@
+// Images and PDFs attached to a chat message travel inline as content parts
+// and reach the model as image and document blocks. Other files are uploaded
+// to the session workspace instead (see attachments.ts).
+
+import { formatFileSize } from './attachments'
+
+export const IMAGE_MEDIA_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const
+export const DOCUMENT_MEDIA_TYPES = ['application/pdf'] as const
+
+export type ImageMediaType = typeof IMAGE_MEDIA_TYPES[number]
+export type DocumentMediaType = typeof DOCUMENT_MEDIA_TYPES[number]
+
+// Limits of the Messages API for a single block. They apply to the base64
+// data, which is a third larger than the file itself.
+const MAX_IMAGE_BASE64_LENGTH = 5 * 1024 * 1024
+const MAX_DOCUMENT_BASE64_LENGTH = 32 * 1024 * 1024
+
+const base64Length = (bytes: number) => Math.ceil(bytes / 3) * 4
+
+const maxBase64Length = (type: ChatMediaPart['type']) =>
+  type === 'image' ? MAX_IMAGE_BASE64_LENGTH : MAX_DOCUMENT_BASE64_LENGTH
+
+export type ChatContentPart =
+  | { type: 'text', text: string }
+  // data is base64 without the data: URL prefix
+  | { type: 'image', mediaType: ImageMediaType, data: string, name?: string }
+  | { type: 'document', mediaType: DocumentMediaType, data: string, name?: string }
+
+export type ChatMediaPart = Exclude<ChatContentPart, { type: 'text' }>
+
+// A message is plain text, or content parts when it carries images or PDFs
+export type ChatMessageInput = string | ChatContentPart[]
+
+// Which part a file of this type is sent as, or null when it has to be uploaded
+export function getMediaPartType(mimeType: string): ChatMediaPart['type'] | null {
+  if ((IMAGE_MEDIA_TYPES as readonly string[]).includes(mimeType)) return 'image'
+  if ((DOCUMENT_MEDIA_TYPES as readonly string[]).includes(mimeType)) return 'document'
+  return null
+}
+
+// Files too large to inline are uploaded like any other file
+export function canSendInline(file: { type: string, size: number }) {
+  const type = getMediaPartType(file.type)
+  return type !== null && base64Length(file.size) <= maxBase64Length(type)
+}
+
+export type ChatMessageValidation =
+  | { valid: true, text: string, media: ChatMediaPart[] }
+  | { valid: false, reason: string }
+
+// Splits a message into its text and media parts, rejecting anything the
+// model would not accept
+export function validateMessageInput(input: unknown): ChatMessageValidation {
+  if (typeof input === 'string') {
+    return input.trim() ? { valid: true, text: input, media: [] } : { valid: false, reason: 'Message is required' }
+  }
+  if (!Array.isArray(input)) {
+    return { valid: false, reason: 'Message is required' }
+  }
+
+  const texts: string[] = []
+  const media: ChatMediaPart[] = []
+  for (const part of input as ChatContentPart[]) {
+    if (part?.type === 'text' && typeof part.text === 'string') {
+      texts.push(part.text)
+    } else if (part?.type === 'image' || part?.type === 'document') {
+      if (getMediaPartType(part.mediaType) !== part.type) {
+        return { valid: false, reason: `Unsupported ${part.type} type: ${String(part.mediaType)}` }
+      }
+      if (typeof part.data !== 'string' || !part.data) {
+        return { valid: false, reason: `Missing data for ${part.name ?? part.type}` }
+      }
+      const limit = maxBase64Length(part.type)
+      if (part.data.length > limit) {
+        return { valid: false, reason: `${part.name ?? part.type} is larger than ${formatFileSize(limit * 3 / 4)}` }
+      }
+      media.push(part)
+    } else {
+      return { valid: false, reason: 'Unknown message content part' }
+    }
+  }
+
+  const text = texts.join('\n\n')
+  if (!text.trim()) {
+    return { valid: false, reason: 'Message is required' }
+  }
+  return { valid: true, text, media }
+}
+
+// Browser only: reads an image or PDF into a content part
+export async function readMediaPart(file: File): Promise<ChatMediaPart> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+  const data = dataUrl.slice(dataUrl.indexOf(',') + 1)
+  return getMediaPartType(file.type) === 'image'
+    ? { type: 'image', mediaType: file.type as ImageMediaType, data, name: file.name }
+    : { type: 'document', mediaType: file.type as DocumentMediaType, data, name: file.name }
+}
+
+const THUMBNAIL_SIZE = 160
+
+// Browser only: a small JPEG preview small enough to save with the conversation
+export async function createThumbnail(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return canvas.toDataURL('image/jpeg', 0.8)
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/idb'
+import {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  matchesConversationSearch,
+  sortByMostRecent,
+  toConversationSummary,
+} from './conversations'
+
+const DB_NAME = 'sentryos-chat'
+const DB_VERSION = 1
+const STORE_NAME = 'conversations'
+
+export function createIndexedDBConversationStore(): ConversationStore {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const getDb = () => {
+    dbPromise ??= openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+    })
+    return dbPromise
+  }
+
+  const get = async (id: string) => {
+    const db = await getDb()
+    const conversation = await requestToPromise<Conversation | undefined>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id)
+    )
+    return conversation ?? null
+  }
+
+  const save = async (conversation: Conversation) => {
+    const db = await getDb()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    transaction.objectStore(STORE_NAME).put(conversation)
+    await transactionDone(transaction)
+  }
+
+  return {
+    async list(search) {
+      const db = await getDb()
+      const conversations = await requestToPromise<Conversation[]>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll()
+      )
+      return sortByMostRecent(
+        conversations
+          .filter(c => matchesConversationSearch(c, search))
+          .map(toConversationSummary)
+      )
+    },
+    get,
+    save,
+    async rename(id, title) {
+      const conversation = await get(id)
+      if (!conversation) return
+      await save({ ...conversation, title })
+    },
+    async remove(id) {
+      const db = await getDb()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).delete(id)
+      await transactionDone(transaction)
+    },
+  }
+}
+
+// Talks to the file-backed store behind /api/chat/conversations
+export function createServerConversationStore(baseUrl = '/api/chat/conversations'): ConversationStore {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    })
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Conversation store request failed (${response.status})`)
+    }
+    return response
+  }
+
+  return {
+    async list(search) {
+      const query = search?.trim() ? `?q=${encodeURIComponent(search.trim())}` : ''
+      const response = await request(query)
+      const { conversations } = await response.json() as { conversations?: ConversationSummary[] }
+      return conversations ?? []
+    },
+    async get(id) {
+      const response = await request(`/${encodeURIComponent(id)}`)
+      if (response.status === 404) return null
+      return await response.json() as Conversation
+    },
+    async save(conversation) {
+      await request(`/${encodeURIComponent(conversation.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify(conversation),
+      })
+    },
+    async rename(id, title) {
+      await request(`/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ title }),
+      })
+    },
+    async remove(id) {
+      await request(`/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+  }
+}
+
+let conversationStore: ConversationStore | null = null
+
+// Every Chat window shares the store; windows showing a conversation another
+// one deleted hear about it here, so they don't save it back
+const removedListeners = new Set<(id: string) => void>()
+
+// NEXT_PUBLIC_CHAT_HISTORY_STORE=server switches to the file-backed store
+export function getConversationStore() {
+  if (!conversationStore) {
+    const store = process.env.NEXT_PUBLIC_CHAT_HISTORY_STORE === 'server'
+      ? createServerConversationStore()
+      : createIndexedDBConversationStore()
+    conversationStore = {
+      ...store,
+      async remove(id) {
+        await store.remove(id)
+        removedListeners.forEach(listener => listener(id))
+      },
+    }
+  }
+  return conversationStore
+}
+
+export function subscribeToRemovedConversations(listener: (id: string) => void) {
+  removedListeners.add(listener)
+  return () => {
+    removedListeners.delete(listener)
+  }
+}
@@ -0,0 +1,106 @@
+// Shared shapes for saved chat conversations. Used by the Chat app's client
+// stores and by the optional file-backed store behind /api/chat/conversations.
+
+import { AgentSummary } from './agents'
+import { ChatArtifact } from './artifacts'
+import { ChatAttachment } from './attachments'
+import { ChatSettings } from './settings'
+import { ChatUsage } from './usage'
+
+export interface ToolActivity {
+  // tool_use id assigned by the agent
+  id: string
+  name: string
+  input?: Record<string, unknown>
+  status: 'running' | 'success' | 'error' | 'denied'
+  // Tool output as reported by the server, truncated there
+  output?: string
+  durationMs?: number
+  // Why the call was refused, by the tool policy or by the user
+  deniedReason?: string
+  // Length of the message text when the call started, so the transcript can
+  // show text and tool calls in the order they happened
+  contentOffset: number
+}
+
+export interface ConversationMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+  tools?: ToolActivity[]
+  // Set when the user stopped generation before the answer completed
+  stopped?: boolean
+  // Files uploaded to the session's workspace with a user message
+  attachments?: ChatAttachment[]
+  // Files the agent wrote while answering
+  artifacts?: ChatArtifact[]
+  // Tokens, cost and time the answer took
+  usage?: ChatUsage
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  // Server-side chat session the conversation was last attached to
+  sessionId: string | null
+  // Run still answering when the conversation was saved, resumed on reopen
+  activeRunId?: string | null
+  // Model, max turns and prompt preset; missing on conversations saved before settings existed
+  settings?: ChatSettings
+  // Agent profile the conversation was held with, if any
+  agent?: AgentSummary | null
+  messages: ConversationMessage[]
+}
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+}
+
+export interface ConversationStore {
+  list(search?: string): Promise<ConversationSummary[]>
+  get(id: string): Promise<Conversation | null>
+  save(conversation: Conversation): Promise<void>
+  rename(id: string, title: string): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation'
+
+const TITLE_MAX_LENGTH = 40
+
+export function deriveConversationTitle(messages: ConversationMessage[]) {
+  const firstUserMessage = messages.find(m => m.role === 'user')
+  if (!firstUserMessage) return DEFAULT_CONVERSATION_TITLE
+
+  const text = firstUserMessage.content.replace(/\s+/g, ' ').trim()
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text
+}
+
+export function toConversationSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+  }
+}
+
+export function matchesConversationSearch(conversation: Conversation, search?: string) {
+  const needle = search?.trim().toLowerCase()
+  if (!needle) return true
+
+  return conversation.title.toLowerCase().includes(needle) ||
+    conversation.messages.some(m => m.content.toLowerCase().includes(needle))
+}
+
+export function sortByMostRecent(summaries: ConversationSummary[]) {
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
@@ -0,0 +1,76 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+  Conversation,
+  ConversationStore,
+  matchesConversationSearch,
+  sortByMostRecent,
+  toConversationSummary,
+} from './conversations'
+
+// Conversation ids become file names, so only allow plain identifiers
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+export function isValidConversationId(id: string) {
+  return CONVERSATION_ID_PATTERN.test(id)
+}
+
+// The server store is opt-in: it is only available when a directory is configured
+export function getConversationsDir() {
+  const dir = process.env.CHAT_CONVERSATIONS_DIR
+  return dir ? path.resolve(dir) : null
+}
+
+export function createFileConversationStore(dir: string): ConversationStore {
+  const fileFor = (id: string) => {
+    if (!isValidConversationId(id)) {
+      throw new Error(`Invalid conversation id: ${id}`)
+    }
+    return path.join(dir, `${id}.json`)
+  }
+
+  const get = async (id: string) => {
+    try {
+      return JSON.parse(await readFile(fileFor(id), 'utf8')) as Conversation
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  const save = async (conversation: Conversation) => {
+    await mkdir(dir, { recursive: true })
+    await writeFile(fileFor(conversation.id), JSON.stringify(conversation, null, 2), 'utf8')
+  }
+
+  return {
+    async list(search) {
+      let files: string[]
+      try {
+        files = (await readdir(dir)).filter(f => f.endsWith('.json'))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw error
+      }
+
+      const conversations = await Promise.all(
+        files.map(f => get(path.basename(f, '.json')).catch(() => null))
+      )
+      return sortByMostRecent(
+        conversations
+          .filter((c): c is Conversation => c !== null && matchesConversationSearch(c, search))
+          .map(toConversationSummary)
+      )
+    },
+    get,
+    save,
+    async rename(id, title) {
+      const conversation = await get(id)
+      if (!conversation) return
+      await save({ ...conversation, title })
+    },
+    async remove(id) {
+      await rm(fileFor(id), { force: true })
+    },
+  }
+}
@@ -0,0 +1,52 @@
+// Pending tool approvals. The chat route parks the agent's permission callback
+// here until the client answers through /api/chat/permissions, the request
+// times out, or the run is aborted. Anything but an explicit approval denies.
+
+export type PermissionOutcome = 'approved' | 'denied' | 'timeout' | 'aborted'
+
+interface PendingPermission {
+  sessionId: string
+  resolve: (outcome: PermissionOutcome) => void
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 60
+
+export const PERMISSION_TIMEOUT_MS =
+  (Number(process.env.CHAT_PERMISSION_TIMEOUT_SECONDS) || DEFAULT_TIMEOUT_SECONDS) * 1000
+
+const globalForPermissions = globalThis as unknown as {
+  chatPermissions?: Map<string, PendingPermission>
+}
+
+const pending = globalForPermissions.chatPermissions ??= new Map<string, PendingPermission>()
+
+export function requestPermission(sessionId: string, signal: AbortSignal) {
+  const id = crypto.randomUUID()
+
+  const outcome = new Promise<PermissionOutcome>((resolve) => {
+    const settle = (result: PermissionOutcome) => {
+      if (!pending.has(id)) return
+      pending.delete(id)
+      clearTimeout(timer)
+      signal.removeEventListener('abort', onAbort)
+      resolve(result)
+    }
+    const onAbort = () => settle('aborted')
+    const timer = setTimeout(() => settle('timeout'), PERMISSION_TIMEOUT_MS)
+
+    pending.set(id, { sessionId, resolve: settle })
+    signal.addEventListener('abort', onAbort)
+    if (signal.aborted) onAbort()
+  })
+
+  return { id, outcome }
+}
+
+// Returns false when the request is unknown, already settled, or belongs to another session
+export function resolvePermission(id: string, sessionId: string, approved: boolean) {
+  const request = pending.get(id)
+  if (!request || request.sessionId !== sessionId) return false
+
+  request.resolve(approved ? 'approved' : 'denied')
+  return true
+}
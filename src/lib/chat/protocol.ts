@@ -0,0 +1,57 @@
+// Wire protocol between /api/chat and the Chat app. Every event is a JSON
+// object in an SSE `data:` field with a per-run sequential `id:`, so clients
+// can tell when events went missing. Bump CHAT_PROTOCOL_VERSION whenever an
+// event changes shape.
+
+import { readSSE } from '@/lib/sse'
+import { ChatArtifact } from './artifacts'
+import { ChatUsage } from './usage'
+
+export const CHAT_PROTOCOL_VERSION = 5
+
+export const CHAT_PROTOCOL_HEADER = 'X-Chat-Protocol-Version'
+
+// Identifies the run a stream belongs to, for reconnecting with Last-Event-ID
+export const CHAT_RUN_HEADER = 'X-Chat-Run-Id'
+
+export type ChatEvent =
+  | { type: 'session', sessionId: string, runId: string, protocolVersion: number }
+  | { type: 'text_delta', text: string }
+  | { type: 'tool_start', toolUseId: string, tool: string, input: Record<string, unknown> }
+  | { type: 'tool_progress', toolUseId: string, tool: string, elapsed: number }
+  | { type: 'tool_result', toolUseId: string, output: string, isError: boolean, durationMs?: number }
+  | { type: 'tool_denied', toolUseId: string, tool: string, reason: string }
+  | { type: 'permission_request', requestId: string, toolUseId: string, tool: string, input: Record<string, unknown> }
+  | { type: 'permission_resolved', requestId: string, approved: boolean }
+  | { type: 'artifact', toolUseId: string, artifact: ChatArtifact }
+  // Runs report what they used; stopped and failed runs as far as it is known
+  | { type: 'done', usage: ChatUsage }
+  | { type: 'stopped', usage?: ChatUsage }
+  | { type: 'error', message: string, usage?: ChatUsage }
+
+export interface ChatEventEnvelope {
+  id: number
+  event: ChatEvent
+}
+
+// Events after which the server sends nothing more for the run
+export function isTerminalChatEvent(event: ChatEvent) {
+  return event.type === 'done' || event.type === 'stopped' || event.type === 'error'
+}
+
+export function encodeChatEvent({ id, event }: ChatEventEnvelope) {
+  return `id: ${id}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatEventEnvelope> {
+  for await (const message of readSSE(body)) {
+    let event: ChatEvent
+    try {
+      event = JSON.parse(message.data) as ChatEvent
+    } catch {
+      console.warn('Ignoring malformed chat event:', message.data)
+      continue
+    }
+    yield { id: Number(message.id), event }
+  }
+}
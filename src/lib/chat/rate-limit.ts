@@ -0,0 +1,193 @@
+// Throttling for /api/chat and its uploads. Each client is limited in how
+// many requests it sends per minute, how many answers run for it at once and
+// how many tokens its answers use per day. The in-memory limiter suits a
+// single server; deployments with several instances can plug in a shared
+// one, e.g. backed by Redis, with setRateLimiter.
+
+import { jsonError } from '@/lib/http'
+
+export interface RateLimits {
+  // 0 turns a limit off
+  requestsPerMinute: number
+  concurrentRuns: number
+  dailyTokens: number
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false, reason: string, retryAfterSeconds: number }
+
+export interface RateLimiter {
+  // Starts a run for the client if its limits allow one
+  acquire(key: string): Promise<RateLimitDecision>
+  // Counts a request that doesn't start a run, e.g. an upload
+  count(key: string): Promise<RateLimitDecision>
+  // Ends a run started by acquire, counting the tokens it used
+  release(key: string, tokens: number): Promise<void>
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20
+const DEFAULT_CONCURRENT_RUNS = 2
+const DEFAULT_DAILY_TOKENS = 5_000_000
+
+const limitFromEnv = (value: string | undefined, fallback: number) => {
+  const limit = Number(value ?? fallback)
+  return Number.isFinite(limit) && limit >= 0 ? limit : fallback
+}
+
+export function loadRateLimits(): RateLimits {
+  return {
+    requestsPerMinute: limitFromEnv(process.env.CHAT_RATE_LIMIT_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE),
+    concurrentRuns: limitFromEnv(process.env.CHAT_RATE_LIMIT_CONCURRENT_RUNS, DEFAULT_CONCURRENT_RUNS),
+    dailyTokens: limitFromEnv(process.env.CHAT_RATE_LIMIT_DAILY_TOKENS, DEFAULT_DAILY_TOKENS),
+  }
+}
+
+const WINDOW_MS = 60 * 1000
+// Answers take a while; there is no telling exactly when one finishes
+const CONCURRENT_RETRY_SECONDS = 10
+
+interface ClientUsage {
+  // Start times of recent requests, oldest first
+  requestTimes: number[]
+  activeRuns: number
+  // UTC day the token count belongs to, as YYYY-MM-DD
+  day: string
+  tokens: number
+}
+
+const utcDay = (now: number) => new Date(now).toISOString().slice(0, 10)
+
+const secondsUntilNextUtcDay = (now: number) => {
+  const tomorrow = new Date(now)
+  tomorrow.setUTCHours(24, 0, 0, 0)
+  return Math.ceil((tomorrow.getTime() - now) / 1000)
+}
+
+export function createMemoryRateLimiter(limits: RateLimits): RateLimiter {
+  const clients = new Map<string, ClientUsage>()
+
+  const getClient = (key: string, now: number) => {
+    const today = utcDay(now)
+    let client = clients.get(key)
+    if (!client) {
+      client = { requestTimes: [], activeRuns: 0, day: today, tokens: 0 }
+      clients.set(key, client)
+    }
+    if (client.day !== today) {
+      client.day = today
+      client.tokens = 0
+    }
+    client.requestTimes = client.requestTimes.filter(time => now - time < WINDOW_MS)
+    return client
+  }
+
+  // Forget clients with nothing left to count
+  const prune = (now: number) => {
+    const today = utcDay(now)
+    for (const [key, client] of clients) {
+      const idle = client.activeRuns === 0 && client.requestTimes.every(time => now - time >= WINDOW_MS)
+      if (idle && (client.day !== today || client.tokens === 0)) clients.delete(key)
+    }
+  }
+
+  // Checks the limits that apply to every request, counting it if allowed
+  const countRequest = (client: ClientUsage, now: number, startsRun: boolean): RateLimitDecision => {
+    if (limits.dailyTokens > 0 && client.tokens >= limits.dailyTokens) {
+      return {
+        allowed: false,
+        reason: `Daily limit of ${limits.dailyTokens.toLocaleString('en-US')} tokens reached`,
+        retryAfterSeconds: secondsUntilNextUtcDay(now),
+      }
+    }
+    if (startsRun && limits.concurrentRuns > 0 && client.activeRuns >= limits.concurrentRuns) {
+      return {
+        allowed: false,
+        reason: `Only ${limits.concurrentRuns} ${limits.concurrentRuns === 1 ? 'answer' : 'answers'} can run at once`,
+        retryAfterSeconds: CONCURRENT_RETRY_SECONDS,
+      }
+    }
+    if (limits.requestsPerMinute > 0 && client.requestTimes.length >= limits.requestsPerMinute) {
+      return {
+        allowed: false,
+        reason: `Only ${limits.requestsPerMinute} messages and uploads can be sent per minute`,
+        retryAfterSeconds: Math.max(1, Math.ceil((client.requestTimes[0] + WINDOW_MS - now) / 1000)),
+      }
+    }
+
+    client.requestTimes.push(now)
+    if (startsRun) client.activeRuns++
+    return { allowed: true }
+  }
+
+  return {
+    async acquire(key) {
+      const now = Date.now()
+      prune(now)
+      return countRequest(getClient(key, now), now, true)
+    },
+
+    async count(key) {
+      const now = Date.now()
+      prune(now)
+      return countRequest(getClient(key, now), now, false)
+    },
+
+    async release(key, tokens) {
+      const client = getClient(key, Date.now())
+      client.activeRuns = Math.max(0, client.activeRuns - 1)
+      client.tokens += tokens
+    },
+  }
+}
+
+// Keep the limiter on globalThis so every route handler (and dev hot
+// reloads) counts against the same clients
+const globalForRateLimit = globalThis as unknown as {
+  chatRateLimiter?: RateLimiter
+}
+
+export function getRateLimiter() {
+  return globalForRateLimit.chatRateLimiter ??= createMemoryRateLimiter(loadRateLimits())
+}
+
+export function setRateLimiter(limiter: RateLimiter) {
+  globalForRateLimit.chatRateLimiter = limiter
+}
+
+// How many proxies in front of the app append to X-Forwarded-For. Their
+// entries are the only ones a client can't forge.
+const trustedProxyCount = () => limitFromEnv(process.env.CHAT_RATE_LIMIT_TRUSTED_PROXIES, 0)
+
+let warnedUntrustedAddress = false
+
+// Who a request is counted against: the user an authenticating proxy names
+// in CHAT_RATE_LIMIT_IDENTITY_HEADER, or else the client's IP address
+export function getRateLimitKey(request: Request) {
+  const identityHeader = process.env.CHAT_RATE_LIMIT_IDENTITY_HEADER
+  const identity = identityHeader && request.headers.get(identityHeader)?.trim()
+  if (identity) return `user:${identity}`
+
+  // Each proxy appends the address it received the request from, so the
+  // client's address is the entry the outermost trusted proxy added; entries
+  // to the left of it are whatever the client sent. Without proxies Next.js
+  // fills in the connection's address, but only if the client sent no
+  // X-Forwarded-For of its own.
+  const proxies = trustedProxyCount()
+  if (proxies === 0 && !identityHeader && !warnedUntrustedAddress) {
+    warnedUntrustedAddress = true
+    console.warn(
+      'Chat rate limits are keyed by an IP address clients can forge. Set ' +
+      'CHAT_RATE_LIMIT_TRUSTED_PROXIES or CHAT_RATE_LIMIT_IDENTITY_HEADER so they cannot be dodged.'
+    )
+  }
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').map(ip => ip.trim()) ?? []
+  const ip = forwardedFor[Math.max(0, forwardedFor.length - Math.max(1, proxies))]
+  return ip ? `ip:${ip}` : 'unknown'
+}
+
+export function rateLimitedResponse(decision: Extract<RateLimitDecision, { allowed: false }>) {
+  return jsonError(decision.reason, 429, {
+    headers: { 'Retry-After': String(decision.retryAfterSeconds) },
+  })
+}
@@ -0,0 +1,83 @@
+// Client side of resumable runs: reads a run's events and, when the
+// connection drops before a terminal event, reconnects with Last-Event-ID so
+// the answer continues exactly where it stopped.
+
+import {
+  CHAT_PROTOCOL_HEADER,
+  CHAT_PROTOCOL_VERSION,
+  ChatEvent,
+  isTerminalChatEvent,
+  readChatEvents,
+} from './protocol'
+
+const MAX_RECONNECT_ATTEMPTS = 5
+const RECONNECT_BASE_DELAY_MS = 1000
+
+interface FollowRunOptions {
+  runId: string
+  // Response that started the run; omitted when resuming from scratch
+  response?: Response
+  signal: AbortSignal
+  onEvent: (event: ChatEvent) => void
+  onReconnect?: (attempt: number) => void
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+
+export function assertChatProtocol(response: Response) {
+  if (response.headers.get(CHAT_PROTOCOL_HEADER) !== String(CHAT_PROTOCOL_VERSION)) {
+    throw new Error('Unsupported chat protocol version')
+  }
+}
+
+// Resolves with the run's terminal event, or null when the server no longer
+// has the run. Throws when it cannot reconnect or the signal aborts.
+export async function followChatRun({ runId, response, signal, onEvent, onReconnect }: FollowRunOptions) {
+  let current: Response | null = response ?? null
+  let lastEventId = 0
+  let attempt = 0
+
+  while (true) {
+    try {
+      current ??= await fetch(`/api/chat/runs/${encodeURIComponent(runId)}`, {
+        headers: { 'Last-Event-ID': String(lastEventId) },
+        signal,
+      })
+      if (current.status === 404) return null
+      if (!current.ok || !current.body) throw new Error(`Failed to reconnect (${current.status})`)
+      assertChatProtocol(current)
+
+      for await (const { id, event } of readChatEvents(current.body)) {
+        // Replays after a reconnect can overlap what was already delivered
+        if (id <= lastEventId) continue
+        if (id !== lastEventId + 1) {
+          console.warn(`Chat stream skipped from event ${lastEventId} to ${id}`)
+        }
+        lastEventId = id
+        attempt = 0
+
+        onEvent(event)
+        if (isTerminalChatEvent(event)) return event
+      }
+    } catch (error) {
+      if (signal.aborted) throw error
+      console.warn('Chat stream interrupted:', error)
+    }
+
+    // The stream ended without a terminal event, so the connection dropped
+    current = null
+    attempt += 1
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      throw new Error('Lost connection to the chat stream')
+    }
+    onReconnect?.(attempt)
+    await wait(RECONNECT_BASE_DELAY_MS * attempt, signal)
+  }
+}
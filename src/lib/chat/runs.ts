@@ -0,0 +1,153 @@
+// Agent runs outlive the HTTP response that started them. Every event a run
+// emits is buffered here so a client whose connection dropped can reconnect
+// with Last-Event-ID and pick up where it left off. A run nobody is listening
+// to is aborted after a grace period so abandoned answers stop spending tokens.
+
+import {
+  CHAT_PROTOCOL_HEADER,
+  CHAT_PROTOCOL_VERSION,
+  CHAT_RUN_HEADER,
+  ChatEvent,
+  ChatEventEnvelope,
+  encodeChatEvent,
+} from './protocol'
+
+interface RunSubscriber {
+  onEvent: (envelope: ChatEventEnvelope) => void
+  onFinish: () => void
+}
+
+export interface ChatRun {
+  id: string
+  sessionId: string
+  events: ChatEventEnvelope[]
+  finished: boolean
+  abortController: AbortController
+  subscribers: Set<RunSubscriber>
+  orphanTimer: ReturnType<typeof setTimeout> | null
+}
+
+const DEFAULT_RECONNECT_GRACE_SECONDS = 30
+
+export const RUN_RECONNECT_GRACE_MS =
+  (Number(process.env.CHAT_RUN_RECONNECT_GRACE_SECONDS) || DEFAULT_RECONNECT_GRACE_SECONDS) * 1000
+
+// How long a finished run's events stay available for late reconnects
+const RUN_RETENTION_MS = 5 * 60 * 1000
+
+const globalForRuns = globalThis as unknown as {
+  chatRuns?: Map<string, ChatRun>
+}
+
+const runs = globalForRuns.chatRuns ??= new Map<string, ChatRun>()
+
+export function createRun(sessionId: string): ChatRun {
+  const run: ChatRun = {
+    id: crypto.randomUUID(),
+    sessionId,
+    events: [],
+    finished: false,
+    abortController: new AbortController(),
+    subscribers: new Set(),
+    orphanTimer: null,
+  }
+  runs.set(run.id, run)
+  return run
+}
+
+export function getRun(id: string) {
+  return runs.get(id)
+}
+
+export function emitRunEvent(run: ChatRun, event: ChatEvent) {
+  if (run.finished) return
+
+  const envelope = { id: run.events.length + 1, event }
+  run.events.push(envelope)
+  for (const subscriber of run.subscribers) {
+    subscriber.onEvent(envelope)
+  }
+}
+
+export function finishRun(run: ChatRun) {
+  if (run.finished) return
+
+  run.finished = true
+  if (run.orphanTimer) clearTimeout(run.orphanTimer)
+  for (const subscriber of run.subscribers) {
+    subscriber.onFinish()
+  }
+  setTimeout(() => runs.delete(run.id), RUN_RETENTION_MS)
+}
+
+export function cancelRun(run: ChatRun) {
+  run.abortController.abort()
+}
+
+// Streams the run's events after `lastEventId`, then live events until it finishes
+function subscribeToRun(run: ChatRun, lastEventId: number, signal: AbortSignal) {
+  const encoder = new TextEncoder()
+  let unsubscribe = () => {}
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const push = (envelope: ChatEventEnvelope) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeChatEvent(envelope)))
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        controller.close()
+      }
+
+      for (const envelope of run.events) {
+        if (envelope.id > lastEventId) push(envelope)
+      }
+      if (run.finished) {
+        close()
+        return
+      }
+
+      const subscriber: RunSubscriber = {
+        onEvent: push,
+        onFinish: () => {
+          close()
+          unsubscribe()
+        },
+      }
+
+      unsubscribe = () => {
+        if (!run.subscribers.delete(subscriber)) return
+        closed = true
+        signal.removeEventListener('abort', unsubscribe)
+        if (run.subscribers.size === 0 && !run.finished) {
+          run.orphanTimer = setTimeout(() => cancelRun(run), RUN_RECONNECT_GRACE_MS)
+        }
+      }
+
+      if (run.orphanTimer) {
+        clearTimeout(run.orphanTimer)
+        run.orphanTimer = null
+      }
+      run.subscribers.add(subscriber)
+      signal.addEventListener('abort', unsubscribe)
+    },
+    cancel() {
+      unsubscribe()
+    },
+  })
+}
+
+export function createRunStreamResponse(run: ChatRun, lastEventId: number, signal: AbortSignal) {
+  return new Response(subscribeToRun(run, lastEventId, signal), {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Session-Id': run.sessionId,
+      [CHAT_RUN_HEADER]: run.id,
+      [CHAT_PROTOCOL_HEADER]: String(CHAT_PROTOCOL_VERSION),
+    },
+  })
+}
@@ -0,0 +1,31 @@
+// Prompts offered in the desktop command palette. Running one opens a new
+// Chat window and sends the prompt as its first message.
+
+export interface SavedPrompt {
+  id: string
+  title: string
+  prompt: string
+}
+
+export const SAVED_PROMPTS: SavedPrompt[] = [
+  {
+    id: 'tech-news',
+    title: "Summarize today's tech news",
+    prompt: "Search the web and summarize today's most important technology news in a few bullet points.",
+  },
+  {
+    id: 'sentry-release-notes',
+    title: "What's new in Sentry",
+    prompt: 'Search the web for the latest Sentry product updates and summarize what changed.',
+  },
+  {
+    id: 'explain-concept',
+    title: 'Explain error monitoring',
+    prompt: 'Explain how error monitoring and distributed tracing work, with a short example of each.',
+  },
+  {
+    id: 'plan-week',
+    title: 'Plan my week',
+    prompt: 'Help me plan my week. Ask me about my priorities and deadlines first.',
+  },
+]
@@ -0,0 +1,84 @@
+// Server-side chat sessions. Each session maps the id handed to the client
+// onto the agent SDK session so follow-up turns can `resume` it instead of
+// re-sending the whole transcript.
+
+import { rm } from 'fs/promises'
+
+export interface TranscriptEntry {
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+}
+
+export interface ChatSession {
+  id: string
+  // SDK session id, known once the first query has reported it
+  agentSessionId: string | null
+  // Sandboxed working directory for the agent, created on the first turn
+  workspaceDir: string | null
+  createdAt: number
+  lastActiveAt: number
+  // Run currently answering in this session, if any
+  activeRunId: string | null
+  transcript: TranscriptEntry[]
+}
+
+const DEFAULT_TTL_MINUTES = 30
+
+export const SESSION_TTL_MS =
+  (Number(process.env.CHAT_SESSION_TTL_MINUTES) || DEFAULT_TTL_MINUTES) * 60 * 1000
+
+// Keep the store on globalThis so every route handler (and dev hot reloads)
+// sees the same sessions.
+const globalForSessions = globalThis as unknown as {
+  chatSessions?: Map<string, ChatSession>
+}
+
+const sessions = globalForSessions.chatSessions ??= new Map<string, ChatSession>()
+
+function isExpired(session: ChatSession, now: number) {
+  return !session.activeRunId && now - session.lastActiveAt > SESSION_TTL_MS
+}
+
+export function pruneExpiredSessions(now = Date.now()) {
+  for (const [id, session] of sessions) {
+    if (isExpired(session, now)) {
+      sessions.delete(id)
+      if (session.workspaceDir) {
+        rm(session.workspaceDir, { recursive: true, force: true })
+          .catch(error => console.error('Failed to remove session workspace:', error))
+      }
+    }
+  }
+}
+
+export function createSession(): ChatSession {
+  pruneExpiredSessions()
+
+  const now = Date.now()
+  const session: ChatSession = {
+    id: crypto.randomUUID(),
+    agentSessionId: null,
+    workspaceDir: null,
+    createdAt: now,
+    lastActiveAt: now,
+    activeRunId: null,
+    transcript: [],
+  }
+  sessions.set(session.id, session)
+  return session
+}
+
+export function getSession(id: string): ChatSession | undefined {
+  pruneExpiredSessions()
+  return sessions.get(id)
+}
+
+export function touchSession(session: ChatSession) {
+  session.lastActiveAt = Date.now()
+}
+
+export function appendTranscript(session: ChatSession, role: TranscriptEntry['role'], content: string) {
+  session.transcript.push({ role, content, timestamp: new Date().toISOString() })
+  touchSession(session)
+}
@@ -0,0 +1,59 @@
+// Per-conversation agent settings chosen in the Chat header. The options are
+// shared with the client for the settings panel; the chat route validates
+// every request against them, so only these values ever reach the agent.
+
+export interface ChatSettings {
+  model: string
+  maxTurns: number
+  preset: string
+}
+
+export const CHAT_MODELS = [
+  { id: 'sonnet', label: 'Claude Sonnet' },
+  { id: 'opus', label: 'Claude Opus' },
+  { id: 'haiku', label: 'Claude Haiku' },
+]
+
+export const SYSTEM_PROMPT_PRESETS = [
+  { id: 'assistant', label: 'Assistant', description: 'General research, questions and tasks' },
+  { id: 'researcher', label: 'Researcher', description: 'Thorough, sourced answers from the web' },
+  { id: 'developer', label: 'Developer', description: 'Code, debugging and technical explanations' },
+  { id: 'writer', label: 'Writer', description: 'Drafting, editing and tightening prose' },
+]
+
+export const MIN_MAX_TURNS = 1
+export const MAX_MAX_TURNS = 50
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: 'sonnet',
+  maxTurns: 10,
+  preset: 'assistant',
+}
+
+export type ChatSettingsValidation =
+  | { valid: true, settings: ChatSettings }
+  | { valid: false, reason: string }
+
+// Missing fields fall back to the defaults so older clients keep working
+export function validateChatSettings(input: unknown): ChatSettingsValidation {
+  if (input !== undefined && (typeof input !== 'object' || input === null)) {
+    return { valid: false, reason: 'Settings must be an object' }
+  }
+
+  const settings = { ...DEFAULT_CHAT_SETTINGS, ...(input as Partial<ChatSettings> | undefined) }
+
+  if (!CHAT_MODELS.some(m => m.id === settings.model)) {
+    return { valid: false, reason: `Unsupported model: ${String(settings.model)}` }
+  }
+  if (!Number.isInteger(settings.maxTurns) || settings.maxTurns < MIN_MAX_TURNS || settings.maxTurns > MAX_MAX_TURNS) {
+    return { valid: false, reason: `Max turns must be a whole number from ${MIN_MAX_TURNS} to ${MAX_MAX_TURNS}` }
+  }
+  if (!SYSTEM_PROMPT_PRESETS.some(p => p.id === settings.preset)) {
+    return { valid: false, reason: `Unknown system prompt preset: ${String(settings.preset)}` }
+  }
+
+  return {
+    valid: true,
+    settings: { model: settings.model, maxTurns: settings.maxTurns, preset: settings.preset },
+  }
+}
@@ -0,0 +1,118 @@
+import { mkdir, readFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+// Deployment-wide rules for which agent tools may run and where they may touch
+// the file system. Loaded from the JSON file named by CHAT_TOOL_POLICY, with
+// the CHAT_* environment variables below taking precedence over its fields.
+export interface ToolPolicy {
+  // Tools the agent may use; null means the full claude_code preset
+  allowedTools: string[] | null
+  // Tools removed from the agent entirely, even if allowed above
+  deniedTools: string[]
+  // Tools that wait for the user to approve each call in the Chat window
+  approvalTools: string[]
+  // Each session gets its own working directory under this root
+  workspaceRoot: string
+  // Extra absolute paths that read-only tools may look at outside the workspace
+  readablePaths: string[]
+}
+
+export type ToolDecision =
+  | { allowed: true }
+  | { allowed: false, reason: string }
+
+interface ToolPolicyFile {
+  allowedTools?: string[]
+  deniedTools?: string[]
+  approvalTools?: string[]
+  workspaceRoot?: string
+  readablePaths?: string[]
+}
+
+const DEFAULT_APPROVAL_TOOLS = ['Bash', 'Write', 'Edit', 'WebFetch']
+
+const DEFAULT_WORKSPACE_ROOT = path.join(os.tmpdir(), 'sentryos-chat')
+
+// Input fields that carry a file system path, per tool
+const PATH_FIELDS: Record<string, string> = {
+  Read: 'file_path',
+  Write: 'file_path',
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  NotebookEdit: 'notebook_path',
+  Glob: 'path',
+  Grep: 'path',
+}
+
+const READ_ONLY_TOOLS = new Set(['Read', 'Glob', 'Grep'])
+
+const parseList = (value: string | undefined) =>
+  value?.split(',').map(item => item.trim()).filter(Boolean)
+
+let cachedPolicy: Promise<ToolPolicy> | null = null
+
+async function readPolicyFile(): Promise<ToolPolicyFile> {
+  const file = process.env.CHAT_TOOL_POLICY
+  if (!file) return {}
+  return JSON.parse(await readFile(path.resolve(file), 'utf8')) as ToolPolicyFile
+}
+
+export function loadToolPolicy(): Promise<ToolPolicy> {
+  cachedPolicy ??= readPolicyFile().then(file => ({
+    allowedTools: parseList(process.env.CHAT_ALLOWED_TOOLS) ?? file.allowedTools ?? null,
+    deniedTools: parseList(process.env.CHAT_DENIED_TOOLS) ?? file.deniedTools ?? [],
+    approvalTools: parseList(process.env.CHAT_APPROVAL_TOOLS) ?? file.approvalTools ?? DEFAULT_APPROVAL_TOOLS,
+    workspaceRoot: path.resolve(process.env.CHAT_WORKSPACE_ROOT ?? file.workspaceRoot ?? DEFAULT_WORKSPACE_ROOT),
+    readablePaths: (file.readablePaths ?? []).map(p => path.resolve(p)),
+  })).catch(error => {
+    // Read the file again next time, e.g. once a missing file was created
+    cachedPolicy = null
+    throw error
+  })
+  return cachedPolicy
+}
+
+export async function createSessionWorkspace(policy: ToolPolicy, sessionId: string) {
+  const dir = path.join(policy.workspaceRoot, sessionId)
+  await mkdir(dir, { recursive: true })
+  return dir
+}
+
+function isWithin(target: string, dir: string) {
+  const relative = path.relative(dir, target)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))
+}
+
+export function requiresApproval(policy: ToolPolicy, toolName: string) {
+  return policy.approvalTools.includes(toolName)
+}
+
+export function checkToolUse(
+  policy: ToolPolicy,
+  workspaceDir: string,
+  toolName: string,
+  input: Record<string, unknown>
+): ToolDecision {
+  if (policy.deniedTools.includes(toolName)) {
+    return { allowed: false, reason: `${toolName} is disabled on this deployment` }
+  }
+  if (policy.allowedTools && !policy.allowedTools.includes(toolName)) {
+    return { allowed: false, reason: `${toolName} is not in the allowed tool list` }
+  }
+
+  const pathField = PATH_FIELDS[toolName]
+  const requestedPath = pathField ? input[pathField] : undefined
+  if (typeof requestedPath === 'string' && requestedPath) {
+    const target = path.resolve(workspaceDir, requestedPath)
+    const permittedRoots = READ_ONLY_TOOLS.has(toolName)
+      ? [workspaceDir, ...policy.readablePaths]
+      : [workspaceDir]
+
+    if (!permittedRoots.some(root => isWithin(target, root))) {
+      return { allowed: false, reason: `${toolName} may not access ${requestedPath} outside the session workspace` }
+    }
+  }
+
+  return { allowed: true }
+}
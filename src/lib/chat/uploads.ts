@@ -0,0 +1,70 @@
+// Server-side storage for chat attachments inside a session's workspace
+
+import { mkdir, readdir, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { UploadedAttachment } from './attachments'
+import { uniqueName } from '@/lib/vfs/paths'
+
+export const UPLOADS_DIR = 'uploads'
+
+const DEFAULT_MAX_UPLOAD_MB = 10
+const DEFAULT_MAX_UPLOAD_FILES = 10
+const DEFAULT_MAX_UPLOAD_TOTAL_MB = 50
+
+export const MAX_UPLOAD_BYTES =
+  (Number(process.env.CHAT_UPLOAD_MAX_MB) || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024
+
+export const MAX_UPLOAD_FILES = Number(process.env.CHAT_UPLOAD_MAX_FILES) || DEFAULT_MAX_UPLOAD_FILES
+
+// All files of one upload together
+export const MAX_UPLOAD_TOTAL_BYTES =
+  (Number(process.env.CHAT_UPLOAD_MAX_TOTAL_MB) || DEFAULT_MAX_UPLOAD_TOTAL_MB) * 1024 * 1024
+
+// Room for the multipart boundaries, part headers and session id around the files
+export const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+// Keeps the file name readable but free of path separators and shell surprises
+export function sanitizeFileName(name: string) {
+  const cleaned = path.basename(name).replace(/[^\w.\- ]/g, '_').replace(/^\.+/, '').trim()
+  return cleaned || 'file'
+}
+
+export async function saveUploads(workspaceDir: string, files: File[]): Promise<UploadedAttachment[]> {
+  const uploadsDir = path.join(workspaceDir, UPLOADS_DIR)
+  await mkdir(uploadsDir, { recursive: true })
+
+  const takenNames = await readdir(uploadsDir)
+  const attachments: UploadedAttachment[] = []
+  for (const file of files) {
+    const name = uniqueName(sanitizeFileName(file.name), takenNames)
+    takenNames.push(name)
+    await writeFile(path.join(uploadsDir, name), Buffer.from(await file.arrayBuffer()))
+    attachments.push({
+      name,
+      path: path.posix.join(UPLOADS_DIR, name),
+      size: file.size,
+      mimeType: file.type || 'application/octet-stream',
+    })
+  }
+  return attachments
+}
+
+// Checks that each path names an uploaded file of this workspace. Returns
+// null when any of them doesn't, e.g. because the session was replaced.
+export async function resolveAttachmentPaths(workspaceDir: string, paths: unknown) {
+  if (!Array.isArray(paths) || !paths.every(p => typeof p === 'string')) return null
+
+  const uploadsDir = path.join(workspaceDir, UPLOADS_DIR)
+  for (const relativePath of paths) {
+    const absolutePath = path.resolve(workspaceDir, relativePath)
+    if (path.dirname(absolutePath) !== uploadsDir) return null
+    const info = await stat(absolutePath).catch(() => null)
+    if (!info?.isFile()) return null
+  }
+  return paths as string[]
+}
+
+// Tells the agent where the attachments are; the workspace is its working directory
+export function describeAttachments(paths: string[]) {
+  return `\n\nAttached files (in the working directory):\n${paths.map(p => `- ${p}`).join('\n')}`
+}
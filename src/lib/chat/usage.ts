@@ -0,0 +1,100 @@
+// Token usage and cost of chat answers, as reported by the agent when a run
+// finishes. Shared by /api/chat and the Chat app.
+
+export interface ChatUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens: number
+  cacheReadInputTokens: number
+  costUsd: number
+  durationMs: number
+  // Agent turns, i.e. model calls, the answer took
+  numTurns: number
+  // Set when the cost is estimated from list prices because the answer
+  // stopped before the agent reported it
+  estimated?: boolean
+}
+
+export const EMPTY_USAGE: ChatUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+  costUsd: 0,
+  durationMs: 0,
+  numTurns: 0,
+}
+
+// Token counts of one Messages API response, as the agent SDK reports them
+export interface ApiUsage {
+  input_tokens?: number | null
+  output_tokens?: number | null
+  cache_creation_input_tokens?: number | null
+  cache_read_input_tokens?: number | null
+}
+
+// Tokens of a single model call; cost and duration are only known from the
+// agent's result
+export function fromApiUsage(usage: ApiUsage): ChatUsage {
+  return {
+    ...EMPTY_USAGE,
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+    numTurns: 1,
+  }
+}
+
+export function addUsage(a: ChatUsage, b: ChatUsage): ChatUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheCreationInputTokens: a.cacheCreationInputTokens + b.cacheCreationInputTokens,
+    cacheReadInputTokens: a.cacheReadInputTokens + b.cacheReadInputTokens,
+    costUsd: a.costUsd + b.costUsd,
+    durationMs: a.durationMs + b.durationMs,
+    numTurns: a.numTurns + b.numTurns,
+    estimated: a.estimated || b.estimated,
+  }
+}
+
+// Approximate list prices in USD per million tokens, by model alias
+const MODEL_PRICES: Record<string, { input: number, output: number, cacheWrite: number, cacheRead: number }> = {
+  opus: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  sonnet: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  haiku: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+}
+
+export function estimateCost(usage: ChatUsage, model: string) {
+  const prices = MODEL_PRICES[model] ?? MODEL_PRICES.sonnet
+  return (
+    usage.inputTokens * prices.input +
+    usage.outputTokens * prices.output +
+    usage.cacheCreationInputTokens * prices.cacheWrite +
+    usage.cacheReadInputTokens * prices.cacheRead
+  ) / 1_000_000
+}
+
+// Input includes tokens written to and read from the prompt cache
+export function totalTokens(usage: ChatUsage) {
+  return usage.inputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens + usage.outputTokens
+}
+
+export function formatTokens(tokens: number) {
+  if (tokens < 1000) return String(tokens)
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`
+  return `${(tokens / 1_000_000).toFixed(2)}M`
+}
+
+export function formatCost(usd: number) {
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`
+}
+
+const DEFAULT_CONVERSATION_BUDGET_USD = 1
+
+// Cost after which the Chat app warns about a conversation; 0 turns the
+// warning off
+export const CONVERSATION_BUDGET_USD = Number(
+  process.env.NEXT_PUBLIC_CHAT_CONVERSATION_BUDGET_USD ?? DEFAULT_CONVERSATION_BUDGET_USD
+) || 0
@@ -0,0 +1,63 @@
+// Tracks files in a session workspace so the chat route can report what the
+// agent wrote, and resolves workspace paths for downloading them
+
+import { readdir, stat } from 'fs/promises'
+import path from 'path'
+import { ChatArtifact, getWorkspaceFileUrl } from './artifacts'
+import { UPLOADS_DIR } from './uploads'
+import { guessMimeType } from '@/lib/vfs/file-types'
+
+// Keeps a scan cheap enough to run after every tool call
+const MAX_SCANNED_FILES = 2000
+const SKIPPED_DIRS = new Set(['node_modules', '.git', UPLOADS_DIR])
+
+// Modification time and size of each file, keyed by its workspace path
+export type WorkspaceSnapshot = Map<string, string>
+
+export async function snapshotWorkspace(workspaceDir: string): Promise<WorkspaceSnapshot> {
+  const snapshot: WorkspaceSnapshot = new Map()
+
+  const scan = async (relativeDir: string) => {
+    const entries = await readdir(path.join(workspaceDir, relativeDir), { withFileTypes: true }).catch(() => [])
+    for (const entry of entries) {
+      if (snapshot.size >= MAX_SCANNED_FILES) return
+      const relativePath = path.posix.join(relativeDir, entry.name)
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) await scan(relativePath)
+      } else if (entry.isFile()) {
+        const info = await stat(path.join(workspaceDir, relativePath)).catch(() => null)
+        if (info) snapshot.set(relativePath, `${info.mtimeMs}:${info.size}`)
+      }
+    }
+  }
+
+  await scan('')
+  return snapshot
+}
+
+// Files created or modified since the previous snapshot, and the new snapshot
+export async function findChangedFiles(workspaceDir: string, sessionId: string, previous: WorkspaceSnapshot) {
+  const snapshot = await snapshotWorkspace(workspaceDir)
+  const artifacts: ChatArtifact[] = []
+
+  for (const [relativePath, version] of snapshot) {
+    const previousVersion = previous.get(relativePath)
+    if (previousVersion === version) continue
+    artifacts.push({
+      path: relativePath,
+      size: Number(version.split(':')[1]),
+      mimeType: guessMimeType(relativePath),
+      change: previousVersion === undefined ? 'created' : 'modified',
+      url: getWorkspaceFileUrl(sessionId, relativePath),
+    })
+  }
+  return { artifacts, snapshot }
+}
+
+// Absolute path of a file inside the workspace, or null for anything outside it
+export function resolveWorkspaceFile(workspaceDir: string, relativePath: string) {
+  const absolutePath = path.resolve(workspaceDir, relativePath)
+  const relative = path.relative(workspaceDir, absolutePath)
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null
+  return absolutePath
+}
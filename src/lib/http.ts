@@ -0,0 +1,12 @@
+// JSON response helpers shared by the API route handlers
+
+export function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  })
+}
+
+export function jsonError(error: string, status: number, init?: ResponseInit) {
+  return jsonResponse({ error }, { ...init, status })
+}
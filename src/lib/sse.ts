@@ -0,0 +1,61 @@
+// Incremental parser for text/event-stream bodies. Network chunks can end
+// anywhere - mid-line or mid-event - so input is buffered until a blank line
+// completes each event.
+
+export interface SSEMessage {
+  id: string | null
+  event: string | null
+  data: string
+}
+
+function parseBlock(block: string): SSEMessage | null {
+  let id: string | null = null
+  let event: string | null = null
+  const data: string[] = []
+
+  for (const line of block.split('\n')) {
+    // Lines starting with a colon are comments (used for keep-alives)
+    if (!line || line.startsWith(':')) continue
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'data') data.push(value)
+    else if (field === 'id') id = value
+    else if (field === 'event') event = value
+  }
+
+  return data.length > 0 ? { id, event, data: data.join('\n') } : null
+}
+
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+      buffer = buffer.replace(/\r\n/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const message = parseBlock(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (message) yield message
+        boundary = buffer.indexOf('\n\n')
+      }
+
+      if (done) break
+    }
+
+    // A final event without its trailing blank line is still delivered
+    const message = parseBlock(buffer)
+    if (message) yield message
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,299 @@
+'use client'
+
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/idb'
+import { DESKTOP_PATH, HOME_PATH, ROOT_PATH, basename, isValidName, isWithin, joinPath, normalizePath, parentPath, uniqueName } from './paths'
+import { guessMimeType, isTextFile } from './file-types'
+
+// A browser-local file system for the desktop apps, persisted in IndexedDB.
+// Every file and folder is one record keyed by its absolute path.
+
+export interface FileSystemEntry {
+  path: string
+  name: string
+  type: 'file' | 'folder'
+  // Folder containing the entry; null for the root
+  parent: string | null
+  // Bytes of content, 0 for folders
+  size: number
+  // Empty for folders
+  mimeType: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Text files are stored as strings so they stay editable; anything else,
+// such as imported images, as a Blob
+export type FileContent = string | Blob
+
+interface FileSystemNode extends FileSystemEntry {
+  // Only set for files
+  content?: FileContent
+}
+
+export interface FileSystem {
+  stat(path: string): Promise<FileSystemEntry | null>
+  // Folders first, then files, each sorted by name
+  list(path: string): Promise<FileSystemEntry[]>
+  readFile(path: string): Promise<string>
+  // The raw content, e.g. to show an image
+  readBlob(path: string): Promise<Blob>
+  // Creates the file or replaces its content; the parent folder must exist.
+  // The type defaults to the Blob's own, then to one guessed from the name.
+  writeFile(path: string, content: FileContent, mimeType?: string): Promise<FileSystemEntry>
+  createFolder(path: string): Promise<FileSystemEntry>
+  // Rename and move return the entry's new path
+  rename(path: string, name: string): Promise<string>
+  move(path: string, folder: string): Promise<string>
+  // Removes the entry and, for folders, everything in it
+  remove(path: string): Promise<void>
+  // Called after every change, e.g. so open folders can refresh
+  subscribe(listener: () => void): () => void
+}
+
+const DB_NAME = 'sentryos-files'
+const DB_VERSION = 1
+const STORE_NAME = 'nodes'
+const PARENT_INDEX = 'parent'
+
+const SEED_FOLDERS = [ROOT_PATH, '/home', HOME_PATH, DESKTOP_PATH, `${HOME_PATH}/Documents`, `${HOME_PATH}/Downloads`]
+
+// Files copied from public/ the first time the file system is opened
+const SEED_FILES = [
+  { path: `${HOME_PATH}/Documents/install-guide.md`, url: '/install-guide.md' },
+]
+
+export const INSTALL_GUIDE_PATH = SEED_FILES[0].path
+
+const toEntry = (node: FileSystemNode): FileSystemEntry => ({
+  path: node.path,
+  name: node.name,
+  type: node.type,
+  parent: node.parent,
+  size: node.size,
+  // Files seeded before types were recorded have none
+  mimeType: node.mimeType ?? (node.type === 'file' ? guessMimeType(node.name) : ''),
+  createdAt: node.createdAt,
+  updatedAt: node.updatedAt,
+})
+
+const byTypeThenName = (a: FileSystemEntry, b: FileSystemEntry) =>
+  a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1
+
+const createNode = (path: string, type: FileSystemEntry['type'], content?: FileContent, mimeType?: string): FileSystemNode => {
+  const now = new Date().toISOString()
+  return {
+    path,
+    name: basename(path),
+    type,
+    parent: parentPath(path),
+    size: content === undefined ? 0 : typeof content === 'string' ? new Blob([content]).size : content.size,
+    mimeType: type === 'folder' ? '' : mimeType || (content instanceof Blob && content.type) || guessMimeType(path),
+    createdAt: now,
+    updatedAt: now,
+    content,
+  }
+}
+
+const fetchSeedContent = async (url: string) => {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`Request failed (${response.status})`)
+    return await response.text()
+  } catch (error) {
+    console.error(`Failed to seed ${url}:`, error)
+    return null
+  }
+}
+
+// Creates the home folders and copies the seed files, unless the root
+// already exists from an earlier visit
+async function seedFileSystem(db: IDBDatabase) {
+  const root = await requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(ROOT_PATH))
+  if (root) return
+
+  // Fetch before opening the transaction, which would commit while waiting on the network
+  const files = await Promise.all(SEED_FILES.map(async file => ({ ...file, content: await fetchSeedContent(file.url) })))
+
+  const transaction = db.transaction(STORE_NAME, 'readwrite')
+  const store = transaction.objectStore(STORE_NAME)
+  for (const path of SEED_FOLDERS) {
+    store.put(createNode(path, 'folder'))
+  }
+  for (const file of files) {
+    if (file.content !== null) store.put(createNode(file.path, 'file', file.content))
+  }
+  await transactionDone(transaction)
+}
+
+export function createIndexedDBFileSystem(): FileSystem {
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const listeners = new Set<() => void>()
+
+  const getDb = () => {
+    dbPromise ??= openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'path' })
+        store.createIndex(PARENT_INDEX, 'parent')
+      }
+    }).then(async db => {
+      await seedFileSystem(db)
+      return db
+    })
+    return dbPromise
+  }
+
+  const getNode = async (path: string) => {
+    const db = await getDb()
+    const node = await requestToPromise<FileSystemNode | undefined>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).get(path)
+    )
+    return node ?? null
+  }
+
+  const getFolder = async (path: string) => {
+    const node = await getNode(path)
+    if (!node) throw new Error(`No such folder: ${path}`)
+    if (node.type !== 'folder') throw new Error(`Not a folder: ${path}`)
+    return node
+  }
+
+  const getFile = async (path: string) => {
+    const node = await getNode(path)
+    if (!node) throw new Error(`No such file: ${path}`)
+    if (node.type !== 'file') throw new Error(`Not a file: ${path}`)
+    return node
+  }
+
+  const writeNodes = async (puts: FileSystemNode[], deletes: string[] = []) => {
+    const db = await getDb()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    deletes.forEach(path => store.delete(path))
+    puts.forEach(node => store.put(node))
+    await transactionDone(transaction)
+    listeners.forEach(listener => listener())
+  }
+
+  // The entry and, for folders, everything below it
+  const getSubtree = async (path: string) => {
+    const db = await getDb()
+    const nodes = await requestToPromise<FileSystemNode[]>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll()
+    )
+    return nodes.filter(node => isWithin(node.path, path))
+  }
+
+  // Rename and move both re-key the entry and everything below it
+  const relocate = async (from: string, to: string) => {
+    if (from === ROOT_PATH) throw new Error('The root folder cannot be moved')
+    if (to === from) return to
+    if (isWithin(to, from)) throw new Error('A folder cannot be moved into itself')
+
+    const parent = parentPath(to)
+    if (parent) await getFolder(parent)
+    if (await getNode(to)) throw new Error(`${basename(to)} already exists in ${parent}`)
+
+    const subtree = await getSubtree(from)
+    if (subtree.length === 0) throw new Error(`No such file or folder: ${from}`)
+
+    const moved = subtree.map(node => {
+      const path = to + node.path.slice(from.length)
+      return { ...node, path, name: basename(path), parent: parentPath(path) }
+    })
+    await writeNodes(moved, subtree.map(node => node.path))
+    return to
+  }
+
+  return {
+    async stat(path) {
+      const node = await getNode(normalizePath(path))
+      return node && toEntry(node)
+    },
+    async list(path) {
+      const folder = await getFolder(normalizePath(path))
+      const db = await getDb()
+      const children = await requestToPromise<FileSystemNode[]>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).index(PARENT_INDEX).getAll(folder.path)
+      )
+      return children.map(toEntry).sort(byTypeThenName)
+    },
+    async readFile(path) {
+      const { content } = await getFile(normalizePath(path))
+      return typeof content === 'string' ? content : await content?.text() ?? ''
+    },
+    async readBlob(path) {
+      const node = await getFile(normalizePath(path))
+      const mimeType = toEntry(node).mimeType
+      return node.content instanceof Blob ? node.content : new Blob([node.content ?? ''], { type: mimeType })
+    },
+    async writeFile(path, content, mimeType) {
+      const filePath = normalizePath(path)
+      const parent = parentPath(filePath)
+      if (!parent || !isValidName(basename(filePath))) throw new Error(`Invalid file path: ${path}`)
+      await getFolder(parent)
+
+      const existing = await getNode(filePath)
+      if (existing?.type === 'folder') throw new Error(`A folder already exists at ${filePath}`)
+
+      const node = createNode(filePath, 'file', content, mimeType)
+      if (existing) node.createdAt = existing.createdAt
+      await writeNodes([node])
+      return toEntry(node)
+    },
+    async createFolder(path) {
+      const folderPath = normalizePath(path)
+      const parent = parentPath(folderPath)
+      if (!parent || !isValidName(basename(folderPath))) throw new Error(`Invalid folder path: ${path}`)
+      await getFolder(parent)
+      if (await getNode(folderPath)) throw new Error(`${basename(folderPath)} already exists in ${parent}`)
+
+      const node = createNode(folderPath, 'folder')
+      await writeNodes([node])
+      return toEntry(node)
+    },
+    async rename(path, name) {
+      const from = normalizePath(path)
+      if (!isValidName(name)) throw new Error(`Invalid name: ${name}`)
+      return relocate(from, joinPath(parentPath(from) ?? ROOT_PATH, name.trim()))
+    },
+    async move(path, folder) {
+      const from = normalizePath(path)
+      return relocate(from, joinPath(folder, basename(from)))
+    },
+    async remove(path) {
+      const target = normalizePath(path)
+      if (target === ROOT_PATH) throw new Error('The root folder cannot be deleted')
+      const subtree = await getSubtree(target)
+      if (subtree.length === 0) return
+      await writeNodes([], subtree.map(node => node.path))
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+let fileSystem: FileSystem | null = null
+
+export function getFileSystem() {
+  fileSystem ??= createIndexedDBFileSystem()
+  return fileSystem
+}
+
+// Copies files from the user's computer into a folder, renaming any that
+// clash with existing names. Text files are stored as text so Notepad can edit them.
+export async function importFiles(fileSystem: FileSystem, folder: string, files: File[]) {
+  const takenNames = (await fileSystem.list(folder)).map(entry => entry.name)
+  const imported: FileSystemEntry[] = []
+  for (const file of files) {
+    const name = uniqueName(file.name, takenNames)
+    takenNames.push(name)
+    const mimeType = file.type || guessMimeType(file.name)
+    const content = isTextFile(mimeType) ? await file.text() : file
+    imported.push(await fileSystem.writeFile(joinPath(folder, name), content, mimeType))
+  }
+  return imported
+}
@@ -0,0 +1,65 @@
+// File type detection for the virtual file system. Browsers often leave
+// File.type empty for source files, so the extension decides as a fallback.
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  yaml: 'text/yaml',
+  yml: 'text/yaml',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  jsx: 'text/javascript',
+  ts: 'text/typescript',
+  tsx: 'text/typescript',
+  py: 'text/x-python',
+  sh: 'text/x-shellscript',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+}
+
+const TEXT_APPLICATION_TYPES = new Set(['application/json', 'application/xml', 'image/svg+xml'])
+
+export function getExtension(name: string) {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+export function guessMimeType(name: string) {
+  return MIME_TYPES_BY_EXTENSION[getExtension(name)] ?? 'application/octet-stream'
+}
+
+// Files Notepad can open and that are stored as text rather than bytes
+export function isTextFile(mimeType: string) {
+  return mimeType.startsWith('text/') || TEXT_APPLICATION_TYPES.has(mimeType)
+}
+
+export function isImageFile(mimeType: string) {
+  return mimeType.startsWith('image/')
+}
+
+// How the file viewer shows a file, or null when it can't
+export function getPreviewKind(mimeType: string): 'image' | 'html' | 'pdf' | null {
+  if (isImageFile(mimeType)) return 'image'
+  if (mimeType === 'text/html') return 'html'
+  if (mimeType === 'application/pdf') return 'pdf'
+  return null
+}
+
+// Types that can run scripts when a browser opens them as a page. From a blob
+// URL they would run with the desktop's origin, so they are only shown sandboxed.
+const ACTIVE_CONTENT_TYPES = new Set(['text/html', 'application/xhtml+xml', 'image/svg+xml', 'application/xml', 'text/xml'])
+
+export function isActiveContent(mimeType: string) {
+  return ACTIVE_CONTENT_TYPES.has(mimeType)
+}
@@ -0,0 +1,68 @@
+// Path helpers for the virtual file system. Paths are absolute and
+// slash-separated, without a trailing slash, e.g. /home/sentry/Documents.
+
+export const ROOT_PATH = '/'
+export const HOME_PATH = '/home/sentry'
+// Files here show up as icons on the desktop
+export const DESKTOP_PATH = `${HOME_PATH}/Desktop`
+
+// Resolves "." and ".." and collapses repeated slashes
+export function normalizePath(path: string) {
+  const segments: string[] = []
+  for (const segment of path.split('/')) {
+    if (!segment || segment === '.') continue
+    if (segment === '..') {
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+  return `/${segments.join('/')}`
+}
+
+export function joinPath(...parts: string[]) {
+  return normalizePath(parts.join('/'))
+}
+
+// Folder containing the path, or null for the root
+export function parentPath(path: string) {
+  if (path === ROOT_PATH) return null
+  const index = path.lastIndexOf('/')
+  return index === 0 ? ROOT_PATH : path.slice(0, index)
+}
+
+export function basename(path: string) {
+  return path === ROOT_PATH ? ROOT_PATH : path.slice(path.lastIndexOf('/') + 1)
+}
+
+// True for the folder itself and everything below it
+export function isWithin(path: string, folder: string) {
+  return path === folder || path.startsWith(folder === ROOT_PATH ? ROOT_PATH : `${folder}/`)
+}
+
+export function isValidName(name: string) {
+  return name.trim() !== '' && name !== '.' && name !== '..' && !name.includes('/')
+}
+
+// Each folder from the root down to the path, for breadcrumbs
+export function getBreadcrumbs(path: string) {
+  const crumbs = [{ name: ROOT_PATH, path: ROOT_PATH }]
+  let current = ''
+  for (const segment of path.split('/').filter(Boolean)) {
+    current += `/${segment}`
+    crumbs.push({ name: segment, path: current })
+  }
+  return crumbs
+}
+
+// "Untitled.md", then "Untitled 2.md" and so on, skipping names already taken
+export function uniqueName(name: string, takenNames: string[]) {
+  const taken = new Set(takenNames)
+  if (!taken.has(name)) return name
+
+  const dot = name.lastIndexOf('.')
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, '']
+  let counter = 2
+  while (taken.has(`${stem} ${counter}${extension}`)) counter++
+  return `${stem} ${counter}${extension}`
+}